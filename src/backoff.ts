@@ -0,0 +1,238 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/backoff
+ */
+
+import * as is from 'is';
+
+/**
+ * How the delay between retries is randomized.
+ *
+ *   - `additive`: Add up to a second to the exponential delay.
+ *   - `none`: Use the exponential delay as is.
+ *   - `full`: Pick a delay between 0 and the exponential delay.
+ *   - `equal`: Keep half of the exponential delay and randomize the other
+ *     half.
+ *   - `decorrelated`: Pick a delay between the initial delay and three times
+ *     the previous delay.
+ */
+export type Jitter = 'additive' | 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Settings that control the delay between retries.
+ */
+export interface BackoffSettings {
+  /** The delay before the first retry, in milliseconds. */
+  initialRetryDelayMillis?: number;
+  /** The factor the delay grows by after every retry. */
+  retryDelayMultiplier?: number;
+  /** The maximum delay between two attempts, in milliseconds. */
+  maxRetryDelayMillis?: number;
+  /** How the delay is randomized. */
+  jitter?: Jitter;
+  /**
+   * The total time in milliseconds, counted from the first attempt, within
+   * which retries may be made. No retry is scheduled past this budget.
+   */
+  maxRetryDurationMillis?: number;
+}
+
+/**
+ * @const {object} - The backoff settings used when none are configured. They
+ *     keep the delays retry-request makes by default: 2 to 3 seconds before
+ *     the first retry, doubling up to 64 seconds.
+ * @private
+ */
+export const DEFAULT_BACKOFF_SETTINGS: Required<BackoffSettings> = {
+  initialRetryDelayMillis: 2000,
+  retryDelayMultiplier: 2,
+  maxRetryDelayMillis: 64000,
+  jitter: 'additive',
+  maxRetryDurationMillis: 600000,
+};
+
+export class Backoff {
+  settings: Required<BackoffSettings>;
+  retryCount: number;
+  attemptCount: number;
+  startTime: number;
+  previousDelay: number;
+  pendingDelay?: number;
+  deadline?: number;
+  deadlineExceeded: boolean;
+
+  /**
+   * Tracks the delays between the attempts of a single call.
+   *
+   * @private
+   *
+   * @param {object=} settings - The backoff settings. Missing values are taken
+   *     from the defaults.
+   */
+  constructor(settings?: BackoffSettings) {
+    this.settings = Object.assign({}, DEFAULT_BACKOFF_SETTINGS);
+    Object.keys(DEFAULT_BACKOFF_SETTINGS).forEach(key => {
+      if (settings && typeof settings[key] !== 'undefined') {
+        this.settings[key] = settings[key];
+      }
+    });
+    this.retryCount = 0;
+    this.attemptCount = 0;
+    this.startTime = Date.now();
+    this.previousDelay = 0;
+    this.deadlineExceeded = false;
+  }
+
+  /**
+   * Calculate the delay before the next retry.
+   *
+   * @return {number} - The delay in milliseconds.
+   */
+  nextDelay() {
+    const {
+      initialRetryDelayMillis,
+      retryDelayMultiplier,
+      maxRetryDelayMillis,
+      jitter,
+    } = this.settings;
+
+    const exponentialDelay = Math.min(
+      initialRetryDelayMillis * Math.pow(retryDelayMultiplier, this.retryCount),
+      maxRetryDelayMillis
+    );
+    let delay: number;
+
+    switch (jitter) {
+      case 'additive': {
+        delay = Math.min(
+          exponentialDelay + Math.random() * 1000,
+          maxRetryDelayMillis
+        );
+        break;
+      }
+
+      case 'full': {
+        delay = Math.random() * exponentialDelay;
+        break;
+      }
+
+      case 'equal': {
+        delay = exponentialDelay / 2 + (Math.random() * exponentialDelay) / 2;
+        break;
+      }
+
+      case 'decorrelated': {
+        const previousDelay = this.previousDelay || initialRetryDelayMillis;
+        delay = Math.min(
+          initialRetryDelayMillis +
+            Math.random() * (previousDelay * 3 - initialRetryDelayMillis),
+          maxRetryDelayMillis
+        );
+        break;
+      }
+
+      default: {
+        delay = exponentialDelay;
+      }
+    }
+
+    delay = Math.floor(delay);
+    this.retryCount++;
+    this.previousDelay = delay;
+    return delay;
+  }
+
+  /**
+   * Check if a retry after the given delay would still fall within the retry
+   * budget.
+   *
+   * @param {number} delay - The delay before the retry, in milliseconds.
+   * @return {boolean}
+   */
+  isWithinBudget(delay: number) {
+    const elapsed = Date.now() - this.startTime;
+    return elapsed + delay <= this.settings.maxRetryDurationMillis;
+  }
+
+  /**
+   * Check if a retry after the given delay would start past the deadline of
+   * the call, if it has one.
+   *
+   * @param {number} delay - The delay before the retry, in milliseconds.
+   * @return {boolean}
+   */
+  isPastDeadline(delay: number) {
+    return is.number(this.deadline) && Date.now() + delay >= this.deadline!;
+  }
+
+  /**
+   * Decide whether a failed attempt is retried. A retry is only made when the
+   * delay before it still falls within the retry budget and before the
+   * deadline, in which case that delay is reserved for the next attempt.
+   *
+   * @param {boolean} retryable - Whether the failure can be retried at all.
+   * @param {number=} serverDelay - The delay the server asked for before the
+   *     retry, in milliseconds. It replaces the calculated delay.
+   * @return {boolean} - Whether to retry.
+   */
+  shouldRetry(retryable: boolean, serverDelay?: number) {
+    if (!retryable) {
+      return false;
+    }
+
+    let delay: number;
+
+    if (is.number(serverDelay)) {
+      delay = serverDelay!;
+      this.retryCount++;
+      this.previousDelay = delay;
+    } else {
+      delay = this.nextDelay();
+    }
+
+    if (this.isPastDeadline(delay)) {
+      this.deadlineExceeded = true;
+      return false;
+    }
+
+    if (!this.isWithinBudget(delay)) {
+      return false;
+    }
+
+    this.pendingDelay = delay;
+    return true;
+  }
+
+  /**
+   * Get the delay to wait before making the next attempt. The first attempt
+   * is made right away.
+   *
+   * @return {number} - The delay in milliseconds.
+   */
+  takeDelay() {
+    if (this.attemptCount++ === 0) {
+      return 0;
+    }
+
+    const delay = is.number(this.pendingDelay)
+      ? this.pendingDelay!
+      : this.nextDelay();
+    delete this.pendingDelay;
+    return delay;
+  }
+}
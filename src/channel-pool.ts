@@ -0,0 +1,181 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/channelPool
+ */
+
+import {EventEmitter} from 'events';
+
+/**
+ * How the client of a call is picked from a pool.
+ *
+ *   - `roundRobin`: Use every client in turn.
+ *   - `leastLoaded`: Use the client with the fewest calls in progress.
+ */
+export type ChannelSelection = 'roundRobin' | 'leastLoaded';
+
+/**
+ * Settings of the pool of clients, each with its own connection, that the
+ * calls of a service are spread over.
+ */
+export interface ChannelPoolSettings {
+  /** The number of clients in the pool. (Default: `1`) */
+  size?: number;
+  /** How the client of a call is picked. (Default: `roundRobin`) */
+  selection?: ChannelSelection;
+}
+
+/**
+ * A pool of clients of a service. Clients are created once they are first
+ * picked.
+ */
+export class ChannelPool<T extends {}> {
+  size: number;
+  selection: ChannelSelection;
+  clients: T[];
+  load: number[];
+  private createClient_: (index: number) => T;
+  private nextIndex_: number;
+  private affinities_: Map<string, number>;
+
+  /**
+   * @param {object} settings - The pool settings.
+   * @param {function} createClient - Create the client at an index of the
+   *     pool.
+   */
+  constructor(
+    settings: ChannelPoolSettings,
+    createClient: (index: number) => T
+  ) {
+    this.size = Math.max(settings.size || 1, 1);
+    this.selection = settings.selection || 'roundRobin';
+    this.clients = [];
+    this.load = new Array(this.size).fill(0);
+    this.createClient_ = createClient;
+    this.nextIndex_ = 0;
+    this.affinities_ = new Map();
+  }
+
+  /**
+   * Get the client to make a call with. Calls with the same affinity key are
+   * made with the same client.
+   *
+   * @param {string=} affinityKey - The affinity key of the call.
+   * @return {object}
+   */
+  getClient(affinityKey?: string): T {
+    let index: number;
+
+    if (typeof affinityKey === 'string' && this.affinities_.has(affinityKey)) {
+      index = this.affinities_.get(affinityKey)!;
+    } else {
+      index = this.pickIndex_();
+      if (typeof affinityKey === 'string') {
+        this.affinities_.set(affinityKey, index);
+      }
+    }
+
+    if (!this.clients[index]) {
+      this.clients[index] = this.trackCalls_(this.createClient_(index), index);
+    }
+
+    return this.clients[index];
+  }
+
+  /**
+   * Stop making the calls of an affinity key with the same client.
+   *
+   * @param {string} affinityKey - The affinity key.
+   */
+  removeAffinity(affinityKey: string) {
+    this.affinities_.delete(affinityKey);
+  }
+
+  /**
+   * Pick the index of the client for a call.
+   *
+   * @private
+   *
+   * @return {number}
+   */
+  private pickIndex_() {
+    if (this.selection === 'leastLoaded') {
+      return this.load.indexOf(Math.min(...this.load));
+    }
+
+    const index = this.nextIndex_;
+    this.nextIndex_ = (this.nextIndex_ + 1) % this.size;
+    return index;
+  }
+
+  /**
+   * Count the calls in progress of a client, by wrapping the methods of its
+   * service. The methods keep their properties, e.g. `requestSerialize`.
+   *
+   * @private
+   *
+   * @param {object} client - The client.
+   * @param {number} index - The index of the client in the pool.
+   * @return {object} - An object that makes the calls of the client.
+   */
+  private trackCalls_(client: T, index: number): T {
+    const trackedClient = Object.create(client);
+
+    // tslint:disable-next-line:forin
+    for (const name in client) {
+      // tslint:disable-next-line:no-any
+      const method = (client as any)[name];
+
+      if (typeof method !== 'function' || !method.path) {
+        continue;
+      }
+
+      trackedClient[name] = Object.assign((...args: Array<{}>) => {
+        const call = method.apply(client, args);
+        this.trackCall_(call, index);
+        return call;
+      }, method);
+    }
+
+    return trackedClient;
+  }
+
+  /**
+   * Count a call as in progress until it ends.
+   *
+   * @private
+   *
+   * @param {object} call - The call.
+   * @param {number} index - The index of the client making the call.
+   */
+  private trackCall_(call: EventEmitter | undefined, index: number) {
+    if (!call || typeof call.once !== 'function') {
+      return;
+    }
+
+    let ended = false;
+    const onEnd = () => {
+      if (!ended) {
+        ended = true;
+        this.load[index]--;
+      }
+    };
+
+    this.load[index]++;
+    call.once('status', onEnd).once('error', onEnd);
+  }
+}
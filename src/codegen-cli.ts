@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/codegenCli
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {CodegenConfig, generateClientTypes} from './codegen';
+
+/**
+ * @const {string} - How to use the command.
+ * @private
+ */
+const USAGE = [
+  'Usage: common-grpc-codegen <config.json> [--out <file>] [--import <module>]',
+  '',
+  'The config file holds the `protosDir` and `protoServices` given to',
+  'GrpcService. `protosDir` is relative to the config file.',
+].join('\n');
+
+/**
+ * Where the command reads its input and writes its output.
+ */
+export interface CliIo {
+  readFile(file: string): string;
+  writeFile(file: string, data: string): void;
+  stdout(data: string): void;
+  stderr(data: string): void;
+}
+
+/**
+ * Generate the client types for a config file, writing them to a file or to
+ * stdout.
+ *
+ * @param {string[]} args - The command line arguments.
+ * @param {object=} io - Where to write output and read input. (Default: the
+ *     process and the file system)
+ * @return {number} - The exit code.
+ */
+export function main(
+  args: string[],
+  io: CliIo = {
+    readFile: (file: string) => fs.readFileSync(file, 'utf8'),
+    writeFile: (file: string, data: string) => fs.writeFileSync(file, data),
+    stdout: (data: string) => process.stdout.write(data),
+    stderr: (data: string) => process.stderr.write(data),
+  }
+) {
+  const options: {[flag: string]: string} = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--out' || args[i] === '--import') {
+      options[args[i]] = args[++i];
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const configFile = positional[0];
+
+  if (positional.length !== 1 || Object.keys(options).some(k => !options[k])) {
+    io.stderr(USAGE + '\n');
+    return 1;
+  }
+
+  let code: string;
+
+  try {
+    const config: CodegenConfig = JSON.parse(io.readFile(configFile));
+    config.protosDir = path.resolve(
+      path.dirname(configFile),
+      config.protosDir || '.'
+    );
+    config.importPath = options['--import'] || config.importPath;
+    code = generateClientTypes(config);
+  } catch (e) {
+    io.stderr(`Could not generate client types: ${e.message}\n`);
+    return 1;
+  }
+
+  if (options['--out']) {
+    io.writeFile(options['--out'], code);
+  } else {
+    io.stdout(code);
+  }
+
+  return 0;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
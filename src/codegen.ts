@@ -0,0 +1,367 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/codegen
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as protobuf from 'protobufjs';
+
+import {GrpcServiceConfig} from './service';
+
+/**
+ * Configuration object for the generator.
+ */
+export interface CodegenConfig {
+  /** The root directory where proto files live. */
+  protosDir: string;
+  /** The proto services, as given to `GrpcService`. */
+  protoServices: GrpcServiceConfig['protoServices'];
+  /**
+   * The module the generated code imports `GrpcService` from.
+   * (Default: `@google-cloud/common-grpc`)
+   */
+  importPath?: string;
+}
+
+/**
+ * @const {object} - The TypeScript types of the protobuf scalar types. They
+ *     match the options protos are loaded with by `GrpcService`, which decodes
+ *     64-bit integers and bytes as strings.
+ * @private
+ */
+const SCALAR_TYPES = {
+  double: 'number',
+  float: 'number',
+  int32: 'number',
+  uint32: 'number',
+  sint32: 'number',
+  fixed32: 'number',
+  sfixed32: 'number',
+  int64: 'string',
+  uint64: 'string',
+  sint64: 'string',
+  fixed64: 'string',
+  sfixed64: 'string',
+  bool: 'boolean',
+  string: 'string',
+  bytes: 'string',
+};
+
+/**
+ * Load a proto file the way `GrpcService` does: imports are looked up in the
+ * protos directory first.
+ *
+ * @param {string} protoPath - The path of the proto file.
+ * @param {string} protosDir - The root directory where proto files live.
+ * @return {Root} - The loaded and resolved protos.
+ */
+export function loadProtoRoot(protoPath: string, protosDir: string) {
+  const root = new protobuf.Root();
+  const resolvePath = root.resolvePath;
+
+  root.resolvePath = (origin, target) => {
+    if (path.isAbsolute(target)) {
+      return target;
+    }
+    const fullPath = path.join(protosDir, target);
+    if (fs.existsSync(fullPath)) {
+      return fullPath;
+    }
+    return resolvePath(origin, target);
+  };
+
+  root.loadSync(protoPath, {keepCase: false});
+  root.resolveAll();
+  return root;
+}
+
+/**
+ * Generate TypeScript interfaces for the messages used by the proto services,
+ * and a client class for every service that wraps `GrpcService` with typed
+ * methods.
+ *
+ * @param {object} config - Configuration object.
+ * @return {string} - The TypeScript source code.
+ */
+export function generateClientTypes(config: CodegenConfig): string {
+  const roots: {[protoPath: string]: protobuf.Root} = {};
+  const services: Array<{name: string; service: protobuf.Service}> = [];
+
+  Object.keys(config.protoServices).forEach(name => {
+    const protoConfig = config.protoServices[name];
+
+    if (!roots[protoConfig.path]) {
+      roots[protoConfig.path] = loadProtoRoot(
+        protoConfig.path,
+        config.protosDir
+      );
+    }
+
+    // Services are looked up the same way `GrpcService` does.
+    const serviceKey = ['google', protoConfig.service, name]
+      .filter(x => x)
+      .join('.');
+    const service = roots[protoConfig.path].lookupService(serviceKey);
+
+    services.push({name, service});
+  });
+
+  const types = collectTypes(services.map(({service}) => service));
+  const typeNames = getTypeNames(types);
+  const lines = [
+    '// Generated by common-grpc-codegen. Do not edit.',
+    '',
+    "import {Duplex} from 'stream';",
+    `import {ProtoOpts, Service} from '${config.importPath ||
+      '@google-cloud/common-grpc'}';`,
+    '',
+    'type GrpcService = InstanceType<typeof Service>;',
+    "type RequestOptions = Parameters<GrpcService['requestStream']>[1];",
+    '',
+    '/** Options for a single call. */',
+    'export type CallOptions = Partial<ProtoOpts>;',
+  ];
+
+  types.forEach(type => {
+    lines.push('');
+    lines.push(...generateType(type, typeNames));
+  });
+
+  services.forEach(({name, service}) => {
+    lines.push('');
+    lines.push(...generateClient(name, service, typeNames));
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Collect every message and enum the methods of the services use, directly
+ * or through the fields of other messages.
+ *
+ * @private
+ *
+ * @param {Service[]} services - The services.
+ * @return {Array<Type|Enum>} - The types, in the order they were found.
+ */
+function collectTypes(services: protobuf.Service[]) {
+  const types: Array<protobuf.Type | protobuf.Enum> = [];
+
+  const visit = (type: protobuf.Type | protobuf.Enum | null) => {
+    if (!type || types.indexOf(type) > -1) {
+      return;
+    }
+    types.push(type);
+    if (type instanceof protobuf.Type) {
+      type.fieldsArray.forEach(field => visit(field.resolvedType));
+    }
+  };
+
+  services.forEach(service => {
+    service.methodsArray.forEach(method => {
+      visit(method.resolvedRequestType);
+      visit(method.resolvedResponseType);
+    });
+  });
+
+  return types;
+}
+
+/**
+ * Name the TypeScript type of every message and enum. Types are named after
+ * the message, prefixed with the messages they are nested in. When two types
+ * get the same name, both are named after their full name instead.
+ *
+ * @private
+ *
+ * @param {Array<Type|Enum>} types - The types.
+ * @return {Map} - The TypeScript type name of each type.
+ */
+function getTypeNames(types: Array<protobuf.Type | protobuf.Enum>) {
+  const upperFirst = (str: string) => str[0].toUpperCase() + str.slice(1);
+  const localName = (type: protobuf.ReflectionObject) => {
+    const names = [type.name];
+    let parent = type.parent;
+    while (parent instanceof protobuf.Type) {
+      names.unshift(parent.name);
+      parent = parent.parent;
+    }
+    return names.join('_');
+  };
+  const qualifiedName = (type: protobuf.ReflectionObject) => {
+    return type.fullName
+      .split('.')
+      .filter(x => x)
+      .map(upperFirst)
+      .join('');
+  };
+
+  const localNames = types.map(localName);
+  const typeNames = new Map<protobuf.ReflectionObject, string>();
+
+  types.forEach((type, i) => {
+    const isUnique =
+      localNames.indexOf(localNames[i]) === i &&
+      localNames.lastIndexOf(localNames[i]) === i;
+    typeNames.set(type, isUnique ? localNames[i] : qualifiedName(type));
+  });
+
+  return typeNames;
+}
+
+/**
+ * Generate the TypeScript type of a message or enum. Messages become
+ * interfaces with optional fields, enums a union of their value names.
+ *
+ * @private
+ *
+ * @param {Type|Enum} type - The message or enum.
+ * @param {Map} typeNames - The TypeScript type names.
+ * @return {string[]} - The lines of code.
+ */
+function generateType(
+  type: protobuf.Type | protobuf.Enum,
+  typeNames: Map<protobuf.ReflectionObject, string>
+) {
+  const typeName = typeNames.get(type)!;
+  const lines = [`/** The \`${type.fullName.slice(1)}\` message. */`];
+
+  if (type instanceof protobuf.Enum) {
+    const values = Object.keys(type.values).map(value => `'${value}'`);
+    lines[0] = `/** The \`${type.fullName.slice(1)}\` enum. */`;
+    lines.push(`export type ${typeName} = ${values.join(' | ') || 'never'};`);
+    return lines;
+  }
+
+  lines.push(`export interface ${typeName} {`);
+
+  type.fieldsArray.forEach(field => {
+    let fieldType = field.resolvedType
+      ? typeNames.get(field.resolvedType)!
+      : SCALAR_TYPES[field.type];
+
+    if (field instanceof protobuf.MapField) {
+      fieldType = `{[key: string]: ${fieldType}}`;
+    } else if (field.repeated) {
+      fieldType = `${fieldType}[]`;
+    }
+
+    lines.push(`  ${field.name}?: ${fieldType};`);
+  });
+
+  // Loaded with `oneofs: true`, a message tells which field of a oneof is set.
+  type.oneofsArray.forEach(oneof => {
+    const fieldNames = oneof.fieldsArray.map(field => `'${field.name}'`);
+    lines.push(`  ${oneof.name}?: ${fieldNames.join(' | ')};`);
+  });
+
+  lines.push('}');
+  return lines;
+}
+
+/**
+ * Generate the client class of a service.
+ *
+ * @private
+ *
+ * @param {string} name - The name of the service in `protoServices`.
+ * @param {Service} service - The service.
+ * @param {Map} typeNames - The TypeScript type names.
+ * @return {string[]} - The lines of code.
+ */
+function generateClient(
+  name: string,
+  service: protobuf.Service,
+  typeNames: Map<protobuf.ReflectionObject, string>
+) {
+  const lines = [
+    `/** A typed client for the \`${service.fullName.slice(1)}\` service. */`,
+    `export class ${name}Client {`,
+    '  constructor(readonly grpcService: GrpcService) {}',
+  ];
+
+  service.methodsArray.forEach(method => {
+    const methodName = method.name[0].toLowerCase() + method.name.slice(1);
+    const requestType = typeNames.get(method.resolvedRequestType!);
+    const responseType = typeNames.get(method.resolvedResponseType!);
+    const protoOpts =
+      `Object.assign({}, options, ` +
+      `{service: '${name}', method: '${methodName}'})`;
+
+    lines.push('');
+
+    if (method.requestStream && method.responseStream) {
+      lines.push(
+        `  /** Write \`${requestType}\` messages to and read`,
+        `   * \`${responseType}\` messages from \`${method.name}\`. */`,
+        `  ${methodName}(options?: CallOptions): Duplex {`,
+        '    return this.grpcService.requestDuplexStream(',
+        `      ${protoOpts}`,
+        '    );',
+        '  }'
+      );
+      return;
+    }
+
+    if (method.requestStream) {
+      lines.push(
+        `  /** Write \`${requestType}\` messages to \`${method.name}\`. */`,
+        `  ${methodName}(options?: CallOptions): Duplex {`,
+        '    return this.grpcService.requestWritableStream(',
+        `      ${protoOpts},`,
+        '      {}',
+        '    );',
+        '  }'
+      );
+      return;
+    }
+
+    if (method.responseStream) {
+      lines.push(
+        `  /** Stream the \`${responseType}\` messages of \`${method.name}\`. */`,
+        `  ${methodName}(`,
+        `    request: ${requestType},`,
+        '    options?: CallOptions',
+        '  ): Duplex {',
+        '    return this.grpcService.requestStream(',
+        `      ${protoOpts},`,
+        '      Object.assign({objectMode: true}, request) as RequestOptions',
+        '    );',
+        '  }'
+      );
+      return;
+    }
+
+    lines.push(
+      `  /** Call \`${method.name}\`. */`,
+      `  ${methodName}(`,
+      `    request: ${requestType},`,
+      '    options?: CallOptions',
+      `  ): Promise<${responseType}> {`,
+      `    return this.grpcService.call<${requestType}, ${responseType}>(`,
+      `      ${protoOpts},`,
+      '      request',
+      '    );',
+      '  }'
+    );
+  });
+
+  lines.push('}');
+  return lines;
+}
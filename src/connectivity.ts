@@ -0,0 +1,131 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/connectivity
+ */
+
+import * as grpc from '@grpc/grpc-js';
+
+/**
+ * The connectivity state of a channel.
+ */
+export type ConnectivityStateName =
+  | 'IDLE'
+  | 'CONNECTING'
+  | 'READY'
+  | 'TRANSIENT_FAILURE'
+  | 'SHUTDOWN';
+
+/**
+ * A change of the connectivity state of the channel of a client.
+ */
+export interface ConnectivityStateChange {
+  /** The name of the service. */
+  service: string;
+  /** The index of the client in the pool of the service, or `0`. */
+  channelIndex: number;
+  state: ConnectivityStateName;
+  previousState: ConnectivityStateName;
+}
+
+/**
+ * The part of a gRPC channel used to watch its connectivity state.
+ */
+export interface WatchableChannel {
+  getConnectivityState(tryToConnect: boolean): number;
+  watchConnectivityState(
+    currentState: number,
+    deadline: Date | number,
+    callback: (error?: Error) => void
+  ): void;
+}
+
+/**
+ * @const {number} - How long a channel is watched before the watch is renewed,
+ *     in milliseconds. A watch cannot be cancelled and its timer keeps the
+ *     process running, so it is kept short: a channel that is no longer
+ *     watched is let go once its watch runs out.
+ * @private
+ */
+const WATCH_DEADLINE_MS = 1000;
+
+/**
+ * Get the name of a connectivity state.
+ *
+ * @param {number} state - The connectivity state.
+ * @return {string}
+ */
+export function getConnectivityStateName(state: number) {
+  return grpc.connectivityState[state] as ConnectivityStateName;
+}
+
+/**
+ * Watch the connectivity state of a channel until it shuts down, or until
+ * `isWatching` returns false once the state changed or the watch ran out.
+ *
+ * @param {Channel} channel - The channel.
+ * @param {function} onChange - The function to run with the new and the
+ *     previous state whenever the state changes.
+ * @param {function} isWatching - Whether to keep watching.
+ */
+export function watchConnectivityState(
+  channel: WatchableChannel,
+  onChange: (
+    state: ConnectivityStateName,
+    previousState: ConnectivityStateName
+  ) => void,
+  isWatching: () => boolean
+) {
+  const watch = (currentState: number) => {
+    let called = false;
+
+    channel.watchConnectivityState(
+      currentState,
+      Date.now() + WATCH_DEADLINE_MS,
+      err => {
+        // A watcher may run twice if the state changes again while the
+        // watchers of the previous change run.
+        if (called || !isWatching()) {
+          return;
+        }
+
+        called = true;
+
+        // The deadline passed without a change.
+        if (err) {
+          watch(currentState);
+          return;
+        }
+
+        const state = channel.getConnectivityState(false);
+
+        if (state !== currentState) {
+          onChange(
+            getConnectivityStateName(state),
+            getConnectivityStateName(currentState)
+          );
+        }
+
+        if (state !== grpc.connectivityState.SHUTDOWN) {
+          watch(state);
+        }
+      }
+    );
+  };
+
+  watch(channel.getConnectivityState(false));
+}
@@ -0,0 +1,309 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/errorDetails
+ */
+
+import * as protobuf from 'protobufjs';
+
+/**
+ * @const {string} - The trailer the server sends the status of a failed call
+ *     in, as an encoded `google.rpc.Status`.
+ */
+export const STATUS_DETAILS_KEY = 'grpc-status-details-bin';
+
+/**
+ * @const {string} - The messages of `google/rpc/status.proto` and
+ *     `google/rpc/error_details.proto`.
+ * @private
+ */
+const ERROR_DETAILS_PROTO = `
+syntax = "proto3";
+package google.rpc;
+
+message Status {
+  int32 code = 1;
+  string message = 2;
+  repeated google.protobuf.Any details = 3;
+}
+
+message RetryInfo {
+  google.protobuf.Duration retry_delay = 1;
+}
+
+message DebugInfo {
+  repeated string stack_entries = 1;
+  string detail = 2;
+}
+
+message QuotaFailure {
+  message Violation {
+    string subject = 1;
+    string description = 2;
+  }
+  repeated Violation violations = 1;
+}
+
+message ErrorInfo {
+  string reason = 1;
+  string domain = 2;
+  map<string, string> metadata = 3;
+}
+
+message PreconditionFailure {
+  message Violation {
+    string type = 1;
+    string subject = 2;
+    string description = 3;
+  }
+  repeated Violation violations = 1;
+}
+
+message BadRequest {
+  message FieldViolation {
+    string field = 1;
+    string description = 2;
+  }
+  repeated FieldViolation field_violations = 1;
+}
+
+message ResourceInfo {
+  string resource_type = 1;
+  string resource_name = 2;
+  string owner = 3;
+  string description = 4;
+}
+
+message Help {
+  message Link {
+    string description = 1;
+    string url = 2;
+  }
+  repeated Link links = 1;
+}
+
+message LocalizedMessage {
+  string locale = 1;
+  string message = 2;
+}
+`;
+
+/**
+ * @const {object} - The property of `StatusDetails` each detail message is
+ *     decoded to.
+ * @private
+ */
+const DETAIL_PROPERTIES: {[type: string]: keyof StatusDetails} = {
+  'google.rpc.ErrorInfo': 'errorInfo',
+  'google.rpc.RetryInfo': 'retryInfo',
+  'google.rpc.QuotaFailure': 'quotaFailure',
+  'google.rpc.BadRequest': 'badRequest',
+  'google.rpc.PreconditionFailure': 'preconditionFailure',
+  'google.rpc.ResourceInfo': 'resourceInfo',
+  'google.rpc.Help': 'help',
+  'google.rpc.LocalizedMessage': 'localizedMessage',
+  'google.rpc.DebugInfo': 'debugInfo',
+};
+
+/**
+ * @const {object} - How decoded messages are converted to plain objects.
+ * @private
+ */
+const CONVERSION_OPTIONS: protobuf.IConversionOptions = {
+  longs: Number,
+  defaults: true,
+  arrays: true,
+  objects: true,
+};
+
+/**
+ * A span of time, as a `google.protobuf.Duration`.
+ */
+export interface Duration {
+  seconds: number;
+  nanos: number;
+}
+
+/**
+ * The cause of an error, as a `google.rpc.ErrorInfo`.
+ */
+export interface ErrorInfo {
+  reason: string;
+  domain: string;
+  metadata: {[key: string]: string};
+}
+
+/**
+ * When a failed call may be retried, as a `google.rpc.RetryInfo`.
+ */
+export interface RetryInfo {
+  retryDelay?: Duration;
+}
+
+/**
+ * The quota checks that failed, as a `google.rpc.QuotaFailure`.
+ */
+export interface QuotaFailure {
+  violations: Array<{subject: string; description: string}>;
+}
+
+/**
+ * The fields of a request that are not valid, as a `google.rpc.BadRequest`.
+ */
+export interface BadRequest {
+  fieldViolations: Array<{field: string; description: string}>;
+}
+
+/**
+ * The preconditions that failed, as a `google.rpc.PreconditionFailure`.
+ */
+export interface PreconditionFailure {
+  violations: Array<{type: string; subject: string; description: string}>;
+}
+
+/**
+ * The resource a call failed on, as a `google.rpc.ResourceInfo`.
+ */
+export interface ResourceInfo {
+  resourceType: string;
+  resourceName: string;
+  owner: string;
+  description: string;
+}
+
+/**
+ * Links to documentation about an error, as a `google.rpc.Help`.
+ */
+export interface Help {
+  links: Array<{description: string; url: string}>;
+}
+
+/**
+ * An error message for the user, as a `google.rpc.LocalizedMessage`.
+ */
+export interface LocalizedMessage {
+  locale: string;
+  message: string;
+}
+
+/**
+ * Debugging information from the server, as a `google.rpc.DebugInfo`.
+ */
+export interface DebugInfo {
+  stackEntries: string[];
+  detail: string;
+}
+
+/**
+ * The detail messages of a failed call. A property is only set when the
+ * server sent a message of its type.
+ */
+export interface StatusDetails {
+  errorInfo?: ErrorInfo;
+  retryInfo?: RetryInfo;
+  quotaFailure?: QuotaFailure;
+  badRequest?: BadRequest;
+  preconditionFailure?: PreconditionFailure;
+  resourceInfo?: ResourceInfo;
+  help?: Help;
+  localizedMessage?: LocalizedMessage;
+  debugInfo?: DebugInfo;
+}
+
+let root: protobuf.Root | undefined;
+
+/**
+ * Get the root the error detail messages are defined in. It is only built
+ * once it is needed.
+ *
+ * @private
+ *
+ * @return {Root}
+ */
+function getRoot() {
+  if (!root) {
+    root = protobuf.Root.fromJSON(
+      protobuf.common.get('google/protobuf/any.proto')!
+    );
+    root.addJSON(
+      protobuf.common.get('google/protobuf/duration.proto')!.nested!
+    );
+    protobuf.parse(ERROR_DETAILS_PROTO, root);
+  }
+
+  return root;
+}
+
+/**
+ * Decode the detail messages of an encoded `google.rpc.Status`. Messages of
+ * unknown types are skipped.
+ *
+ * @param {Buffer} buffer - The encoded status.
+ * @return {object} - The detail messages.
+ */
+export function decodeStatusDetails(buffer: Buffer): StatusDetails {
+  const root = getRoot();
+  const status = root.lookupType('google.rpc.Status').decode(buffer) as {
+    details?: Array<{type_url: string; value: Uint8Array}>;
+  };
+  const details: StatusDetails = {};
+
+  (status.details || []).forEach(detail => {
+    const typeName = detail.type_url.split('/').pop()!;
+    const property = DETAIL_PROPERTIES[typeName];
+
+    if (!property || details[property]) {
+      return;
+    }
+
+    const type = root.lookupType(typeName);
+    (details as {[property: string]: {}})[property] = type.toObject(
+      type.decode(detail.value),
+      CONVERSION_OPTIONS
+    );
+  });
+
+  return details;
+}
+
+/**
+ * Decode the detail messages a failed call sent in its trailing metadata.
+ *
+ * @param {Metadata=} metadata - The trailing metadata of the call.
+ * @return {object|null} - The detail messages, or null if the server sent
+ *     none.
+ */
+export function getStatusDetails(metadata?: {
+  get(key: string): Array<string | Buffer>;
+}): StatusDetails | null {
+  if (!metadata || typeof metadata.get !== 'function') {
+    return null;
+  }
+
+  const [buffer] = metadata.get(STATUS_DETAILS_KEY);
+
+  if (!Buffer.isBuffer(buffer)) {
+    return null;
+  }
+
+  try {
+    return decodeStatusDetails(buffer);
+  } catch (e) {
+    // A trailer that cannot be decoded should not hide the error of the call.
+    return null;
+  }
+}
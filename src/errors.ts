@@ -0,0 +1,158 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/errors
+ */
+
+import * as grpc from '@grpc/grpc-js';
+
+/**
+ * What a `GrpcServiceError` is made of.
+ */
+export interface GrpcServiceErrorOptions {
+  /** The HTTP status code the gRPC status code maps to. */
+  code: number;
+  /** The gRPC status code. */
+  grpcCode: number;
+  /** The trailing metadata of the call. */
+  metadata?: grpc.Metadata;
+  /** The error the call failed with. */
+  cause?: Error;
+}
+
+/**
+ * The error a call fails with. Every gRPC status code has its own subclass,
+ * e.g. `NotFoundError` for NOT_FOUND.
+ */
+export class GrpcServiceError extends Error {
+  /**
+   * The HTTP status code the gRPC status code maps to, or the gRPC status code
+   * if the service is set up with `useGrpcStatusCodes`.
+   */
+  code: number;
+  /** The HTTP status code the gRPC status code maps to. */
+  httpCode: number;
+  /** The gRPC status code. */
+  grpcCode: number;
+  /** The name of the gRPC status code, e.g. `NOT_FOUND`. */
+  grpcCodeName: string;
+  metadata?: grpc.Metadata;
+  cause?: Error;
+
+  /**
+   * @param {string} message - The error message.
+   * @param {object} options - The status of the call.
+   */
+  constructor(message: string, options: GrpcServiceErrorOptions) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = options.code;
+    this.httpCode = options.code;
+    this.grpcCode = options.grpcCode;
+    this.grpcCodeName = grpc.status[options.grpcCode] || 'UNKNOWN';
+    this.metadata = options.metadata;
+    this.cause = options.cause;
+  }
+}
+
+/** The error of a call that failed with CANCELLED. */
+export class CancelledError extends GrpcServiceError {}
+
+/** The error of a call that failed with UNKNOWN. */
+export class UnknownError extends GrpcServiceError {}
+
+/** The error of a call that failed with INVALID_ARGUMENT. */
+export class InvalidArgumentError extends GrpcServiceError {}
+
+/** The error of a call that failed with DEADLINE_EXCEEDED. */
+export class DeadlineExceededError extends GrpcServiceError {}
+
+/** The error of a call that failed with NOT_FOUND. */
+export class NotFoundError extends GrpcServiceError {}
+
+/** The error of a call that failed with ALREADY_EXISTS. */
+export class AlreadyExistsError extends GrpcServiceError {}
+
+/** The error of a call that failed with PERMISSION_DENIED. */
+export class PermissionDeniedError extends GrpcServiceError {}
+
+/** The error of a call that failed with RESOURCE_EXHAUSTED. */
+export class ResourceExhaustedError extends GrpcServiceError {}
+
+/** The error of a call that failed with FAILED_PRECONDITION. */
+export class FailedPreconditionError extends GrpcServiceError {}
+
+/** The error of a call that failed with ABORTED. */
+export class AbortedError extends GrpcServiceError {}
+
+/** The error of a call that failed with OUT_OF_RANGE. */
+export class OutOfRangeError extends GrpcServiceError {}
+
+/** The error of a call that failed with UNIMPLEMENTED. */
+export class UnimplementedError extends GrpcServiceError {}
+
+/** The error of a call that failed with INTERNAL. */
+export class InternalError extends GrpcServiceError {}
+
+/** The error of a call that failed with UNAVAILABLE. */
+export class UnavailableError extends GrpcServiceError {}
+
+/** The error of a call that failed with DATA_LOSS. */
+export class DataLossError extends GrpcServiceError {}
+
+/** The error of a call that failed with UNAUTHENTICATED. */
+export class UnauthenticatedError extends GrpcServiceError {}
+
+/**
+ * @const {object} - The error class of each gRPC status code.
+ * @private
+ */
+const ERROR_CLASSES: {[grpcCode: number]: typeof GrpcServiceError} = {
+  [grpc.status.CANCELLED]: CancelledError,
+  [grpc.status.UNKNOWN]: UnknownError,
+  [grpc.status.INVALID_ARGUMENT]: InvalidArgumentError,
+  [grpc.status.DEADLINE_EXCEEDED]: DeadlineExceededError,
+  [grpc.status.NOT_FOUND]: NotFoundError,
+  [grpc.status.ALREADY_EXISTS]: AlreadyExistsError,
+  [grpc.status.PERMISSION_DENIED]: PermissionDeniedError,
+  [grpc.status.RESOURCE_EXHAUSTED]: ResourceExhaustedError,
+  [grpc.status.FAILED_PRECONDITION]: FailedPreconditionError,
+  [grpc.status.ABORTED]: AbortedError,
+  [grpc.status.OUT_OF_RANGE]: OutOfRangeError,
+  [grpc.status.UNIMPLEMENTED]: UnimplementedError,
+  [grpc.status.INTERNAL]: InternalError,
+  [grpc.status.UNAVAILABLE]: UnavailableError,
+  [grpc.status.DATA_LOSS]: DataLossError,
+  [grpc.status.UNAUTHENTICATED]: UnauthenticatedError,
+};
+
+/**
+ * Create the error of a call, as an instance of the class of its gRPC status
+ * code.
+ *
+ * @param {string} message - The error message.
+ * @param {object} options - The status of the call.
+ * @return {GrpcServiceError}
+ */
+export function createGrpcServiceError(
+  message: string,
+  options: GrpcServiceErrorOptions
+): GrpcServiceError {
+  // tslint:disable-next-line:variable-name
+  const ErrorClass = ERROR_CLASSES[options.grpcCode] || GrpcServiceError;
+  return new ErrorClass(message, options);
+}
@@ -0,0 +1,149 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/flowControl
+ */
+
+import {Writable} from 'stream';
+
+/**
+ * Limits on the messages written to a call that the call has not sent yet.
+ */
+export interface FlowControlSettings {
+  /** The number of messages that may be waiting to be sent. */
+  maxOutstandingMessages?: number;
+  /** The number of serialized bytes that may be waiting to be sent. */
+  maxOutstandingBytes?: number;
+  /**
+   * The number of messages the returned stream buffers before `write()`
+   * returns `false`.
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * A writable stream that writes to a gRPC call, holding back further writes
+ * while too many messages or bytes are waiting to be sent, or the call asks
+ * to wait for `drain`.
+ *
+ * A message is outstanding from the time it is written to the call until the
+ * call reports it sent.
+ */
+export class FlowControlledWritable extends Writable {
+  settings: FlowControlSettings;
+  outstandingMessages: number;
+  outstandingBytes: number;
+  private destination_: Writable;
+  private getSize_: (message: {}) => number;
+  private awaitingDrain_: boolean;
+  private pendingCallback_?: () => void;
+
+  /**
+   * @param {Writable} destination - The call to write to.
+   * @param {object} settings - The flow control limits.
+   * @param {function} getSize - Get the size of a message in bytes.
+   */
+  constructor(
+    destination: Writable,
+    settings: FlowControlSettings,
+    getSize: (message: {}) => number
+  ) {
+    // Writes are held back here, so the stream itself does not buffer.
+    super({objectMode: true, highWaterMark: 1});
+    this.settings = settings;
+    this.outstandingMessages = 0;
+    this.outstandingBytes = 0;
+    this.destination_ = destination;
+    this.getSize_ = getSize;
+    this.awaitingDrain_ = false;
+
+    destination.on('drain', () => {
+      this.awaitingDrain_ = false;
+      this.release_();
+    });
+  }
+
+  /**
+   * Check if the limits allow another message to be written.
+   *
+   * @return {boolean}
+   */
+  isWithinLimits() {
+    const {maxOutstandingMessages, maxOutstandingBytes} = this.settings;
+
+    if (
+      typeof maxOutstandingMessages === 'number' &&
+      this.outstandingMessages >= maxOutstandingMessages
+    ) {
+      return false;
+    }
+
+    if (
+      typeof maxOutstandingBytes === 'number' &&
+      this.outstandingBytes >= maxOutstandingBytes
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  _write(message: {}, encoding: string, callback: () => void) {
+    const size = this.getSize_(message);
+
+    this.outstandingMessages++;
+    this.outstandingBytes += size;
+
+    // Errors of the call are emitted by the call itself.
+    const written = this.destination_.write(message, () => {
+      this.outstandingMessages--;
+      this.outstandingBytes -= size;
+      this.release_();
+    });
+
+    if (!written) {
+      this.awaitingDrain_ = true;
+    }
+
+    this.pendingCallback_ = callback;
+    this.release_();
+  }
+
+  _final(callback: () => void) {
+    this.destination_.end();
+    callback();
+  }
+
+  /**
+   * Accept the next message once the call can take it.
+   *
+   * @private
+   */
+  private release_() {
+    if (
+      !this.pendingCallback_ ||
+      this.awaitingDrain_ ||
+      !this.isWithinLimits()
+    ) {
+      return;
+    }
+
+    const callback = this.pendingCallback_;
+    delete this.pendingCallback_;
+    callback();
+  }
+}
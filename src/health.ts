@@ -0,0 +1,143 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/health
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import * as protobuf from 'protobufjs';
+
+/**
+ * @const {string} - The name of the standard gRPC health checking service.
+ */
+export const HEALTH_SERVICE_NAME = 'grpc.health.v1.Health';
+
+/**
+ * @const {string} - `grpc/health/v1/health.proto`.
+ * @private
+ */
+const HEALTH_PROTO = `
+syntax = "proto3";
+package grpc.health.v1;
+
+message HealthCheckRequest {
+  string service = 1;
+}
+
+message HealthCheckResponse {
+  enum ServingStatus {
+    UNKNOWN = 0;
+    SERVING = 1;
+    NOT_SERVING = 2;
+    SERVICE_UNKNOWN = 3;
+  }
+  ServingStatus status = 1;
+}
+
+service Health {
+  rpc Check(HealthCheckRequest) returns (HealthCheckResponse);
+  rpc Watch(HealthCheckRequest) returns (stream HealthCheckResponse);
+}
+`;
+
+/**
+ * Whether a service is serving, as reported by the health checking service.
+ * `SERVICE_UNKNOWN` is only sent while watching a service the server does not
+ * know.
+ */
+export type ServingStatus =
+  | 'UNKNOWN'
+  | 'SERVING'
+  | 'NOT_SERVING'
+  | 'SERVICE_UNKNOWN';
+
+/**
+ * A request to the health checking service.
+ */
+export interface HealthCheckRequest {
+  /** The name of the service to check, or `''` for the server as a whole. */
+  service: string;
+}
+
+/**
+ * A response of the health checking service.
+ */
+export interface HealthCheckResponse {
+  status: ServingStatus;
+}
+
+let healthClient: ReturnType<typeof grpc.makeClientConstructor> | undefined;
+
+/**
+ * Get the client class of the health checking service. It is only built once
+ * it is needed.
+ *
+ * @return {function}
+ */
+export function getHealthClient() {
+  if (!healthClient) {
+    const root = protobuf.parse(HEALTH_PROTO).root;
+    const methods: grpc.ServiceDefinition = {};
+
+    root.lookupService(HEALTH_SERVICE_NAME).methodsArray.forEach(method => {
+      const requestType = root.lookupType(method.requestType);
+      const responseType = root.lookupType(method.responseType);
+
+      methods[method.name] = {
+        path: `/${HEALTH_SERVICE_NAME}/${method.name}`,
+        requestStream: !!method.requestStream,
+        responseStream: !!method.responseStream,
+        requestSerialize: serialize(requestType),
+        requestDeserialize: deserialize(requestType),
+        responseSerialize: serialize(responseType),
+        responseDeserialize: deserialize(responseType),
+        originalName: method.name[0].toLowerCase() + method.name.slice(1),
+      };
+    });
+
+    healthClient = grpc.makeClientConstructor(methods, HEALTH_SERVICE_NAME);
+  }
+
+  return healthClient;
+}
+
+/**
+ * Create the function that encodes the messages of a type.
+ *
+ * @private
+ *
+ * @param {Type} type - The message type.
+ * @return {function}
+ */
+function serialize(type: protobuf.Type) {
+  return (message: {}) =>
+    Buffer.from(type.encode(type.fromObject(message)).finish());
+}
+
+/**
+ * Create the function that decodes the messages of a type to plain objects,
+ * with enum values as their names.
+ *
+ * @private
+ *
+ * @param {Type} type - The message type.
+ * @return {function}
+ */
+function deserialize(type: protobuf.Type) {
+  return (buffer: Buffer) =>
+    type.toObject(type.decode(buffer), {enums: String, defaults: true});
+}
@@ -16,8 +16,55 @@
 
 import * as grpc from '@grpc/grpc-js';
 
+import {
+  BadRequest,
+  DebugInfo,
+  decodeStatusDetails,
+  Duration,
+  ErrorInfo,
+  Help,
+  LocalizedMessage,
+  PreconditionFailure,
+  QuotaFailure,
+  ResourceInfo,
+  RetryInfo,
+  StatusDetails,
+} from './error-details';
+import {ChannelPoolSettings, ChannelSelection} from './channel-pool';
+import {ConnectivityStateChange, ConnectivityStateName} from './connectivity';
+import {
+  AbortedError,
+  AlreadyExistsError,
+  CancelledError,
+  DataLossError,
+  DeadlineExceededError,
+  FailedPreconditionError,
+  GrpcServiceError,
+  GrpcServiceErrorOptions,
+  InternalError,
+  InvalidArgumentError,
+  NotFoundError,
+  OutOfRangeError,
+  PermissionDeniedError,
+  ResourceExhaustedError,
+  UnauthenticatedError,
+  UnavailableError,
+  UnimplementedError,
+  UnknownError,
+} from './errors';
+import {FlowControlSettings} from './flow-control';
+import {HEALTH_SERVICE_NAME, ServingStatus} from './health';
 import {GrpcOperation} from './operation';
-import {GrpcService} from './service';
+import {
+  CallResult,
+  ChannelOptions,
+  CloseOptions,
+  GrpcErrorCodeToHttp,
+  GrpcService,
+  ProtoOpts,
+  ServiceClosedError,
+  TotalTimeoutError,
+} from './service';
 import {GrpcServiceObject} from './service-object';
 
 // tslint:disable-next-line:variable-name
@@ -53,6 +100,84 @@ export {Service};
  */
 export {grpc};
 
+/**
+ * @type {module:commonGrpc/service}
+ */
+export {TotalTimeoutError, ServiceClosedError};
+
+/**
+ * @type {module:commonGrpc/errors}
+ */
+export {
+  AbortedError,
+  AlreadyExistsError,
+  CancelledError,
+  DataLossError,
+  DeadlineExceededError,
+  FailedPreconditionError,
+  GrpcServiceError,
+  GrpcServiceErrorOptions,
+  InternalError,
+  InvalidArgumentError,
+  NotFoundError,
+  OutOfRangeError,
+  PermissionDeniedError,
+  ResourceExhaustedError,
+  UnauthenticatedError,
+  UnavailableError,
+  UnimplementedError,
+  UnknownError,
+};
+
+/**
+ * @type {module:commonGrpc/service}
+ */
+export {
+  CallResult,
+  ChannelOptions,
+  CloseOptions,
+  GrpcErrorCodeToHttp,
+  ProtoOpts,
+};
+
+/**
+ * @type {module:commonGrpc/flowControl}
+ */
+export {FlowControlSettings};
+
+/**
+ * @type {module:commonGrpc/channelPool}
+ */
+export {ChannelPoolSettings, ChannelSelection};
+
+/**
+ * @type {module:commonGrpc/health}
+ */
+export {HEALTH_SERVICE_NAME, ServingStatus};
+
+/**
+ * @type {module:commonGrpc/connectivity}
+ */
+export {ConnectivityStateChange, ConnectivityStateName};
+
+/**
+ * @type {module:commonGrpc/errorDetails}
+ */
+export {
+  BadRequest,
+  DebugInfo,
+  decodeStatusDetails,
+  Duration,
+  ErrorInfo,
+  Help,
+  LocalizedMessage,
+  PreconditionFailure,
+  QuotaFailure,
+  ResourceInfo,
+  RetryInfo,
+  StatusDetails,
+};
+
 /**
  * @type {module:common/util}
  * @private
@@ -0,0 +1,208 @@
+/*!
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*!
+ * @module commonGrpc/methodConfig
+ */
+
+import * as grpc from '@grpc/grpc-js';
+
+import {BackoffSettings} from './backoff';
+
+/**
+ * The methods a method config applies to. Without a method, it applies to
+ * every method of the service. Without a service, it applies to every method.
+ */
+export interface MethodConfigName {
+  service?: string;
+  method?: string;
+}
+
+/**
+ * A retry policy, as defined by the gRPC service config.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  /** A duration such as `"0.1s"`. */
+  initialBackoff: string;
+  /** A duration such as `"10s"`. */
+  maxBackoff: string;
+  backoffMultiplier: number;
+  /** Status code names (`"UNAVAILABLE"`) or numbers (`14`). */
+  retryableStatusCodes: Array<string | number>;
+}
+
+export interface MethodConfig {
+  name: MethodConfigName[];
+  /** A duration such as `"30s"`. */
+  timeout?: string;
+  retryPolicy?: RetryPolicy;
+}
+
+/**
+ * A gRPC service config. Only `methodConfig` is used.
+ *
+ * @see https://github.com/grpc/grpc/blob/master/doc/service_config.md
+ */
+export interface GrpcServiceConfigJson {
+  methodConfig?: MethodConfig[];
+}
+
+/**
+ * The settings that a method config resolves to for a single method.
+ */
+export interface MethodSettings {
+  /** The timeout in milliseconds. */
+  timeout?: number;
+  /** The retry options, including the backoff. */
+  retryOpts?: BackoffSettings & {retries: number};
+  /** The gRPC status codes a call is retried on. */
+  retryableCodes?: number[];
+}
+
+/**
+ * Parse a protobuf JSON duration, such as `"1.5s"`.
+ *
+ * @param {string} duration - The duration.
+ * @return {number} - The duration in milliseconds.
+ */
+export function parseDuration(duration: string): number {
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(duration);
+
+  if (!match) {
+    throw new Error(`Invalid duration: "${duration}".`);
+  }
+
+  return Math.round(Number(match[1]) * 1000);
+}
+
+/**
+ * Convert a status code name, such as `"UNAVAILABLE"`, to its number.
+ *
+ * @param {string|number} code - The status code name or number.
+ * @return {number} - The status code number.
+ */
+export function toStatusCode(code: string | number): number {
+  if (typeof code === 'number') {
+    return code;
+  }
+
+  const statusCode = grpc.status[code.toUpperCase()];
+
+  if (typeof statusCode !== 'number') {
+    throw new Error(`Unknown status code: "${code}".`);
+  }
+
+  return statusCode;
+}
+
+/**
+ * Check if a method config name matches a service and method.
+ *
+ * Service names in a service config are fully qualified
+ * (`google.longrunning.Operations`) while services are referred to by their
+ * short name (`Operations`), so either form matches. Method names are compared
+ * ignoring the case of their first letter, as the generated clients use
+ * camelCase names (`getOperation`) for the methods in the proto
+ * (`GetOperation`).
+ *
+ * @private
+ */
+function matches(name: MethodConfigName, service: string, method?: string) {
+  if (!name.service) {
+    return false;
+  }
+  if (name.service !== service && !name.service.endsWith('.' + service)) {
+    return false;
+  }
+  if (!method) {
+    return true;
+  }
+  const lowerFirst = (str: string) => str[0].toLowerCase() + str.slice(1);
+  return lowerFirst(name.method!) === lowerFirst(method);
+}
+
+/**
+ * Find the method config that applies to a method. The most specific config
+ * wins: one naming the method, then one naming only the service, then the
+ * default config that names neither.
+ *
+ * @param {object} serviceConfig - The gRPC service config.
+ * @param {string} service - The service name.
+ * @param {string} method - The method name.
+ * @return {object|undefined} - The method config.
+ */
+export function findMethodConfig(
+  serviceConfig: GrpcServiceConfigJson,
+  service: string,
+  method: string
+): MethodConfig | undefined {
+  const methodConfigs = serviceConfig.methodConfig || [];
+  const find = (test: (name: MethodConfigName) => boolean) => {
+    return methodConfigs.find(methodConfig => methodConfig.name.some(test));
+  };
+
+  return (
+    find(name => !!name.method && matches(name, service, method)) ||
+    find(name => !name.method && matches(name, service)) ||
+    find(name => !name.service)
+  );
+}
+
+/**
+ * Resolve the settings that apply to a method.
+ *
+ * @param {object} serviceConfig - The gRPC service config.
+ * @param {string} service - The service name.
+ * @param {string} method - The method name.
+ * @return {object} - The method settings.
+ */
+export function getMethodSettings(
+  serviceConfig: GrpcServiceConfigJson,
+  service: string,
+  method: string
+): MethodSettings {
+  const methodConfig = findMethodConfig(serviceConfig, service, method);
+  const settings: MethodSettings = {};
+
+  if (!methodConfig) {
+    return settings;
+  }
+
+  if (methodConfig.timeout) {
+    settings.timeout = parseDuration(methodConfig.timeout);
+  }
+
+  const retryPolicy = methodConfig.retryPolicy;
+
+  if (retryPolicy) {
+    // gRPC picks every delay at random, up to the current backoff. Calls
+    // start retry-request at attempt 0, so `retries` counts every attempt,
+    // like `maxAttempts` does.
+    settings.retryOpts = {
+      retries: Math.max(retryPolicy.maxAttempts, 1),
+      initialRetryDelayMillis: parseDuration(retryPolicy.initialBackoff),
+      maxRetryDelayMillis: parseDuration(retryPolicy.maxBackoff),
+      retryDelayMultiplier: retryPolicy.backoffMultiplier,
+      jitter: 'full',
+    };
+    settings.retryableCodes = retryPolicy.retryableStatusCodes.map(
+      toStatusCode
+    );
+  }
+
+  return settings;
+}
@@ -25,16 +25,27 @@ import {Response} from 'teeny-request';
  * @type {module:commonGrpc/service}
  * @private
  */
-import {GrpcService} from './service';
+import {AbortSignalLike, GrpcService} from './service';
 /**
  * @type {module:commonGrpc/serviceObject}
  * @private
  */
 import {GrpcServiceObject} from './service-object';
 
+export interface GrpcOperationOptions {
+  /**
+   * A signal to cancel the requests of the operation with. Once it is aborted,
+   * polling stops and the operation emits a CANCELLED error.
+   */
+  signal?: AbortSignalLike;
+}
+
 export class GrpcOperation extends GrpcServiceObject {
   completeListeners: number;
   hasActiveListeners: boolean;
+  signal?: AbortSignalLike;
+  pollTimeout?: NodeJS.Timer;
+  private onAbort_?: () => void;
 
   /**
    * An Operation object allows you to interact with APIs that take longer to
@@ -47,17 +58,30 @@ export class GrpcOperation extends GrpcServiceObject {
    *     parent object. This should be configured to use the
    * longrunning.operation service.
    * @param {string} name - The operation name.
+   * @param {object=} options - Configuration object.
+   * @param {AbortSignal=} options.signal - A signal to cancel the requests of
+   *     the operation with.
    */
-  constructor(parent: GrpcService | GrpcServiceObject, name: string) {
+  constructor(
+    parent: GrpcService | GrpcServiceObject,
+    name: string,
+    options?: GrpcOperationOptions
+  ) {
+    const signal = options && options.signal;
+    const requestOptions = signal ? {signal} : {};
+
     const methods = {
       /**
        * Deletes an operation.
        */
       delete: {
-        protoOpts: {
-          service: 'Operations',
-          method: 'deleteOperation',
-        },
+        protoOpts: Object.assign(
+          {
+            service: 'Operations',
+            method: 'deleteOperation',
+          },
+          requestOptions
+        ),
         reqOpts: {
           name,
         },
@@ -77,10 +101,13 @@ export class GrpcOperation extends GrpcServiceObject {
        * Retrieves metadata for the operation.
        */
       getMetadata: {
-        protoOpts: {
-          service: 'Operations',
-          method: 'getOperation',
-        },
+        protoOpts: Object.assign(
+          {
+            service: 'Operations',
+            method: 'getOperation',
+          },
+          requestOptions
+        ),
         reqOpts: {
           name,
         },
@@ -96,6 +123,7 @@ export class GrpcOperation extends GrpcServiceObject {
     super((config as {}) as ServiceObjectConfig);
     this.completeListeners = 0;
     this.hasActiveListeners = false;
+    this.signal = signal;
     this.listenForEvents_();
   }
 
@@ -164,6 +192,7 @@ export class GrpcOperation extends GrpcServiceObject {
         this.completeListeners++;
         if (!this.hasActiveListeners) {
           this.hasActiveListeners = true;
+          this.listenForAbort_();
           this.startPolling_();
         }
       }
@@ -186,18 +215,53 @@ export class GrpcOperation extends GrpcServiceObject {
    * @private
    */
   protected async startPolling_() {
+    this.pollTimeout = undefined;
     if (!this.hasActiveListeners) {
+      this.stopListeningForAbort_();
       return;
     }
     try {
       const metadata = await this.poll_();
       if (!metadata) {
-        setTimeout(this.startPolling_.bind(this), 500);
+        this.pollTimeout = setTimeout(this.startPolling_.bind(this), 500);
         return;
       }
+      this.stopListeningForAbort_();
       this.emit('complete', metadata);
     } catch (err) {
+      this.stopListeningForAbort_();
       this.emit('error', err);
     }
   }
+
+  /**
+   * Listen for the signal to abort while polling. Polling ends with the
+   * cancellation error of the next poll, so it is made right away.
+   *
+   * @private
+   */
+  private listenForAbort_() {
+    if (!this.signal || this.onAbort_) {
+      return;
+    }
+    this.onAbort_ = () => {
+      if (this.pollTimeout) {
+        clearTimeout(this.pollTimeout);
+        this.startPolling_();
+      }
+    };
+    this.signal.addEventListener('abort', this.onAbort_);
+  }
+
+  /**
+   * Stop listening for the signal to abort once polling is over.
+   *
+   * @private
+   */
+  private stopListeningForAbort_() {
+    if (this.signal && this.onAbort_) {
+      this.signal.removeEventListener('abort', this.onAbort_);
+      this.onAbort_ = undefined;
+    }
+  }
 }
@@ -139,6 +139,16 @@ export class GrpcServiceObject extends ServiceObject {
     return (this.parent as any).requestWritableStream.apply(this.parent, args);
   }
 
+  /**
+   * Patch a bidirectional streaming request to the GrpcService object.
+   *
+   * @private
+   */
+  requestDuplexStream(...args: Array<{}>) {
+    // tslint:disable-next-line:no-any
+    return (this.parent as any).requestDuplexStream.apply(this.parent, args);
+  }
+
   private getOpts(metadata: boolean | {reqOpts?: CoreOptions}) {
     return typeof metadata === 'boolean' ? {} : metadata.reqOpts || {};
   }
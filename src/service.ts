@@ -39,13 +39,60 @@ import * as grpc from '@grpc/grpc-js';
 import * as is from 'is';
 import {Request, Response} from 'teeny-request';
 import * as retryRequest from 'retry-request';
-import {Duplex, PassThrough} from 'stream';
+import {Duplex, PassThrough, Transform} from 'stream';
+
+import {Backoff, BackoffSettings} from './backoff';
+import {ChannelPool, ChannelPoolSettings} from './channel-pool';
+import {
+  ConnectivityStateChange,
+  watchConnectivityState,
+  WatchableChannel,
+} from './connectivity';
+import {getStatusDetails, StatusDetails} from './error-details';
+import {
+  createGrpcServiceError,
+  DeadlineExceededError,
+  FailedPreconditionError,
+  GrpcServiceError,
+} from './errors';
+import {FlowControlledWritable, FlowControlSettings} from './flow-control';
+import {
+  getHealthClient,
+  HEALTH_SERVICE_NAME,
+  HealthCheckRequest,
+  HealthCheckResponse,
+  ServingStatus,
+} from './health';
+import {
+  getMethodSettings,
+  GrpcServiceConfigJson,
+  MethodSettings,
+} from './method-config';
 
 export interface ServiceRequestCallback {
-  (err: Error | null, apiResponse?: Response): void;
+  (
+    err: Error | null,
+    apiResponse?: Response,
+    metadata?: grpc.Metadata,
+    status?: grpc.StatusObject
+  ): void;
+}
+
+/**
+ * The result of a call made with `GrpcService#callWithMetadata`.
+ */
+export interface CallResult<TRes> {
+  /** The response message. */
+  response: TRes;
+  /** The metadata the server sent with the response. */
+  metadata: grpc.Metadata;
+  /** The metadata the server sent once the call completed. */
+  trailingMetadata: grpc.Metadata;
+  /** The final status of the call. */
+  status?: grpc.StatusObject;
 }
 
-interface RetryOptions {
+interface RetryOptions extends BackoffSettings {
   objectMode?: boolean;
   // tslint:disable-next-line:no-any
   request?: any;
@@ -59,14 +106,186 @@ export interface ProtoOpts {
   service: string;
   method: string;
   timeout?: number;
+  /**
+   * The timeout of every attempt, in milliseconds. Each retry gets a fresh
+   * deadline.
+   */
+  attemptTimeout?: number;
+  /**
+   * The time the call may take in total, in milliseconds, including retries
+   * and the delays between them. Once it runs out, the call fails with a
+   * `TotalTimeoutError`.
+   */
+  totalTimeout?: number;
   retryOpts?: RetryOptions;
   stream?: Duplex;
+  /**
+   * Metadata to send with this request only. It is merged onto a copy of the
+   * service-level metadata, replacing any values already set for a key.
+   */
+  metadata?: grpc.Metadata | RequestMetadata;
+  /**
+   * Whether the call is safe to replay. Overrides the setting of the method in
+   * `protoServices`. A call that is not idempotent is only retried when it
+   * fails with a code that guarantees the server did not process it.
+   */
+  idempotent?: boolean;
+  /**
+   * A signal to cancel the call with. Once it is aborted, the call is
+   * cancelled, no further retries are made and the call fails with a
+   * CANCELLED error.
+   */
+  signal?: AbortSignalLike;
+  /**
+   * Make a server stream resumable. When the stream fails with a retryable
+   * error after messages were received, the call is made again with the
+   * request this returns, and its messages are emitted into the same stream.
+   * Return nothing to fail with the error instead.
+   *
+   * @param lastMessage - The last message received from the server.
+   * @param reqOpts - The request of the call that failed.
+   */
+  // tslint:disable-next-line:no-any
+  resumeRequest?(lastMessage: any, reqOpts: any): {} | void;
+  /**
+   * Limits on the messages written to a writable or duplex stream that are
+   * waiting to be sent. Overrides the service's `flowControl` settings.
+   */
+  flowControl?: FlowControlSettings;
+  /**
+   * Make the call with the same client of the pool as the other calls with
+   * this key. Only used when the service has a `channelPool`. A key is kept
+   * until it is released with `releaseChannelAffinity`.
+   */
+  channelAffinityKey?: string;
+  /**
+   * Wait for the channel to connect, instead of failing while it cannot.
+   * The call still fails once its deadline passes.
+   */
+  waitForReady?: boolean;
+  /**
+   * How long a server or bidirectional stream may go without receiving a
+   * message, in milliseconds. Once it runs out, the call is cancelled and the
+   * stream fails with a DEADLINE_EXCEEDED error.
+   */
+  idleTimeout?: number;
+  /**
+   * Tell apart the keepalive messages of a server or bidirectional stream.
+   * They count as activity for the `idleTimeout`, but are not emitted.
+   */
+  // tslint:disable-next-line:no-any
+  isKeepalive?(message: any): boolean;
+}
+
+/**
+ * The part of an `AbortSignal` used to cancel a call.
+ */
+export interface AbortSignalLike {
+  aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * Options for closing a `GrpcService`.
+ */
+export interface CloseOptions {
+  /**
+   * Whether to wait for the calls in progress to end. Otherwise they are
+   * cancelled. (Default: `true`)
+   */
+  graceful?: boolean;
+  /** After how many milliseconds the calls still in progress are cancelled. */
+  timeoutMs?: number;
+}
+
+/**
+ * Options of the channel of a client. They are merged over
+ * `GrpcService.GRPC_SERVICE_OPTIONS`.
+ */
+export interface ChannelOptions {
+  /**
+   * The largest message that may be sent, in bytes. `-1` for no limit. Only
+   * a `config.grpc` that supports it enforces it; `@grpc/grpc-js` 0.6 does
+   * not.
+   */
+  'grpc.max_send_message_length'?: number;
+  /**
+   * The largest message that may be received, in bytes. `-1` for no limit.
+   * Only a `config.grpc` that supports it enforces it; `@grpc/grpc-js` 0.6
+   * does not.
+   */
+  'grpc.max_receive_message_length'?: number;
+  /** The delay before the first attempt to reconnect, in milliseconds. */
+  'grpc.initial_reconnect_backoff_ms'?: number;
+  /** The longest delay between attempts to reconnect, in milliseconds. */
+  'grpc.max_reconnect_backoff_ms'?: number;
+  /** How often a keepalive ping is sent, in milliseconds. */
+  'grpc.keepalive_time_ms'?: number;
+  /** How long to wait for the reply to a keepalive ping, in milliseconds. */
+  'grpc.keepalive_timeout_ms'?: number;
+  /** The authority to send with calls, instead of the address. */
+  'grpc.default_authority'?: string;
+  [option: string]: string | number | undefined;
+}
+
+/**
+ * Options for a single method of a service.
+ */
+export interface MethodOptions {
+  /** Whether calls to the method are safe to replay. (Default: `true`) */
+  idempotent?: boolean;
+}
+
+/**
+ * A plain object of metadata keys and their values.
+ */
+export interface RequestMetadata {
+  [key: string]: string | Buffer | Array<string | Buffer>;
 }
 
-interface GrpcOptions {
+export interface GrpcOptions {
   deadline?: Date;
 }
 
+/**
+ * The kind of gRPC call seen by an interceptor.
+ */
+export type CallType = 'unary' | 'serverStream' | 'clientStream' | 'bidiStream';
+
+/**
+ * Describes an outgoing call to the interceptors. Request hooks may modify or
+ * replace `reqOpts`, `metadata` and `callOptions` before the call is made.
+ */
+export interface InterceptorContext {
+  type: CallType;
+  protoOpts: ProtoOpts;
+  reqOpts: {};
+  metadata: grpc.Metadata;
+  callOptions: GrpcOptions;
+}
+
+/**
+ * A client interceptor. Every hook is optional and hooks run in the order the
+ * interceptors were added.
+ */
+export interface GrpcInterceptor {
+  /** Observe or modify a call before it is sent. */
+  request?(context: InterceptorContext): void;
+  /**
+   * Inspect a response. For streaming calls, this runs once for every message
+   * received. Return a value to replace the response. The call fails with
+   * what the hook throws.
+   */
+  // tslint:disable-next-line:no-any
+  response?(response: any, context: InterceptorContext): any;
+  /**
+   * Inspect an error. Return an error to replace it. The call fails with
+   * what the hook throws.
+   */
+  error?(err: Error, context: InterceptorContext): Error | void;
+}
+
 /**
  * Configuration object for GrpcService.
  */
@@ -84,9 +303,78 @@ export interface GrpcServiceConfig extends ServiceConfig {
    * class requires multiple services.
    */
   protoServices: {
-    [serviceName: string]: {path: string; service: string; baseUrl: string};
+    [serviceName: string]: {
+      path: string;
+      service: string;
+      baseUrl: string;
+      /** Options for the methods of the service, by method name. */
+      methods?: {[methodName: string]: MethodOptions};
+      /** The pool of clients of the service. Overrides `channelPool`. */
+      channelPool?: ChannelPoolSettings;
+      /**
+       * The channel options of the clients of the service. They are merged
+       * over `channelOptions`.
+       */
+      channelOptions?: ChannelOptions;
+    };
   };
   customEndpoint: boolean;
+  /** Interceptors to run for every call made by this service. */
+  grpcInterceptors?: GrpcInterceptor[];
+  /**
+   * The delay between retries. Can be overridden for a single call with
+   * `protoOpts.retryOpts`.
+   */
+  backoffSettings?: BackoffSettings;
+  /**
+   * A gRPC service config, as an object or a JSON string. The timeout and
+   * retry policy of its `methodConfig` apply to every call of a matching
+   * method, unless the call sets its own `timeout` or `retryOpts`.
+   */
+  grpcServiceConfig?: GrpcServiceConfigJson | string;
+  /**
+   * Limits on the messages written to writable and duplex streams that are
+   * waiting to be sent. Can be overridden for a single call with
+   * `protoOpts.flowControl`.
+   */
+  flowControl?: FlowControlSettings;
+  /**
+   * Set the `code` of the errors that calls fail with to the gRPC status
+   * code instead of the HTTP status code it maps to. Both are always
+   * available as `grpcCode` and `httpCode`.
+   */
+  useGrpcStatusCodes?: boolean;
+  /**
+   * Spread the calls of every service over a pool of clients, each with its
+   * own connection, instead of making them all with one client.
+   */
+  channelPool?: ChannelPoolSettings;
+  /**
+   * The channel options of every client, e.g. message size limits or
+   * keepalive settings. They are merged over
+   * `GrpcService.GRPC_SERVICE_OPTIONS`.
+   */
+  channelOptions?: ChannelOptions;
+  /**
+   * The name of the service checked by `checkHealth` and `watchHealth`. By
+   * default, the health of the server as a whole is checked.
+   */
+  healthCheckService?: string;
+  /**
+   * The HTTP status code and default message of gRPC status codes, replacing
+   * those of `GrpcService.GRPC_ERROR_CODE_TO_HTTP`. The HTTP status code
+   * decides whether a call is retried when no retryable codes are set.
+   */
+  grpcErrorCodeToHttp?: {
+    [grpcCode: number]: {code?: number; message?: string};
+  };
+}
+
+/**
+ * The HTTP status code and default message of every gRPC status code.
+ */
+export interface GrpcErrorCodeToHttp {
+  [grpcCode: number]: {code: number; message: string};
 }
 
 // TODO: convert this object to an array
@@ -95,7 +383,7 @@ export interface GrpcServiceConfig extends ServiceConfig {
  * @const {object} - A map of protobuf codes to HTTP status codes.
  * @private
  */
-const GRPC_ERROR_CODE_TO_HTTP = {
+const GRPC_ERROR_CODE_TO_HTTP: GrpcErrorCodeToHttp = {
   0: {
     code: 200,
     message: 'OK',
@@ -182,6 +470,14 @@ const GRPC_ERROR_CODE_TO_HTTP = {
   },
 };
 
+/**
+ * @const {number[]} - The gRPC status codes a call that is not idempotent is
+ *     retried on. UNAVAILABLE is returned when the call could not be delivered,
+ *     so replaying it cannot duplicate its effect.
+ * @private
+ */
+const NON_IDEMPOTENT_RETRY_CODES = [grpc.status.UNAVAILABLE];
+
 /**
  * The default configuration for all gRPC Service instantions.
  *
@@ -203,6 +499,117 @@ const GRPC_SERVICE_OPTIONS = {
   'grpc.initial_reconnect_backoff_ms': 5000,
 };
 
+/**
+ * The error a call fails with once its `totalTimeout` has run out, or when no
+ * retry can be made before it would.
+ */
+export class TotalTimeoutError extends DeadlineExceededError {
+  totalTimeout: number;
+
+  /**
+   * @param {number} totalTimeout - The total timeout of the call.
+   * @param {error=} cause - The error of the last attempt.
+   * @param {number=} httpCode - The HTTP status code DEADLINE_EXCEEDED maps
+   *     to.
+   * @param {string=} message - The error message. (Default: that the total
+   *     timeout was exceeded)
+   */
+  constructor(
+    totalTimeout: number,
+    cause?: Error,
+    httpCode = GRPC_ERROR_CODE_TO_HTTP[grpc.status.DEADLINE_EXCEEDED].code,
+    message = `Total timeout of ${totalTimeout}ms exceeded.`
+  ) {
+    super(message, {
+      code: httpCode,
+      grpcCode: grpc.status.DEADLINE_EXCEEDED,
+      cause,
+    });
+    this.totalTimeout = totalTimeout;
+  }
+}
+
+/**
+ * The error a call fails with once the service is closing.
+ */
+export class ServiceClosedError extends FailedPreconditionError {
+  /**
+   * @param {number=} httpCode - The HTTP status code FAILED_PRECONDITION maps
+   *     to.
+   */
+  constructor(
+    httpCode = GRPC_ERROR_CODE_TO_HTTP[grpc.status.FAILED_PRECONDITION].code
+  ) {
+    super('The service was closed.', {
+      code: httpCode,
+      grpcCode: grpc.status.FAILED_PRECONDITION,
+    });
+  }
+}
+
+/**
+ * The signal a call is cancelled with. It aborts once the signal given by the
+ * caller does, or once the service cancels the call on close. Its listeners
+ * run at most once.
+ *
+ * @private
+ */
+class CallSignal implements AbortSignalLike {
+  private signal_?: AbortSignalLike;
+  private cancelled_: boolean;
+  private listeners_: Map<() => void, () => void>;
+
+  /**
+   * @param {AbortSignal=} signal - The signal given by the caller, if any.
+   */
+  constructor(signal?: AbortSignalLike) {
+    this.signal_ = signal;
+    this.cancelled_ = false;
+    this.listeners_ = new Map();
+  }
+
+  get aborted() {
+    return this.cancelled_ || !!(this.signal_ && this.signal_.aborted);
+  }
+
+  addEventListener(type: 'abort', listener: () => void) {
+    const onAbort = () => {
+      this.removeEventListener(type, listener);
+      listener();
+    };
+
+    this.listeners_.set(listener, onAbort);
+    if (this.signal_) {
+      this.signal_.addEventListener(type, onAbort);
+    }
+  }
+
+  removeEventListener(type: 'abort', listener: () => void) {
+    const onAbort = this.listeners_.get(listener);
+
+    if (!onAbort) {
+      return;
+    }
+
+    this.listeners_.delete(listener);
+    if (this.signal_) {
+      this.signal_.removeEventListener(type, onAbort);
+    }
+  }
+
+  /**
+   * Cancel the call, unless it already is.
+   */
+  cancel() {
+    if (this.aborted) {
+      return;
+    }
+
+    this.cancelled_ = true;
+    Array.from(this.listeners_.values()).forEach(onAbort => onAbort());
+  }
+}
+
 export interface ObjectToStructConverterConfig {
   removeCircular?: boolean;
   stringify?: boolean;
@@ -346,18 +753,45 @@ export class GrpcService extends Service {
   grpc?: typeof grpc;
   grpcVersion?: string;
   grpcCredentials?: {};
-  grpcMetadata?: {add: Function};
+  grpcMetadata?: grpc.Metadata;
   maxRetries?: number;
   userAgent?: string;
   activeServiceMap_ = new Map();
   protos = {};
+  grpcInterceptors: GrpcInterceptor[] = [];
+  backoffSettings?: BackoffSettings;
+  flowControl?: FlowControlSettings;
+  useGrpcStatusCodes = false;
+  grpcErrorCodeToHttp: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP;
+  channelPool?: ChannelPoolSettings;
+  channelPools_: Map<string, ChannelPool<{}>> = new Map();
+  grpcServiceConfig?: GrpcServiceConfigJson;
+  protoMethods: {
+    [serviceName: string]: {[methodName: string]: MethodOptions};
+  } = {};
+  protoChannelPools: {[serviceName: string]: ChannelPoolSettings} = {};
+  channelOptions?: ChannelOptions;
+  protoChannelOptions: {[serviceName: string]: ChannelOptions} = {};
+  healthCheckService?: string;
+  private activeCalls_: Set<CallSignal> = new Set();
+  private closing_?: Promise<void>;
+  private onCallsEnded_?: () => void;
+  private events_ = new EventEmitter();
+  private retiredClients_: Array<{
+    clients: Array<{close(): void}>;
+    calls: Set<CallSignal>;
+  }> = [];
+  private watchedChannels_: Set<WatchableChannel> = new Set();
 
   /** A cache for proto objects. */
   private static protoObjectCache: {[name: string]: PackageDefinition} = {};
 
   static readonly GRPC_SERVICE_OPTIONS = GRPC_SERVICE_OPTIONS;
   static readonly GRPC_ERROR_CODE_TO_HTTP = GRPC_ERROR_CODE_TO_HTTP;
+  static readonly NON_IDEMPOTENT_RETRY_CODES = NON_IDEMPOTENT_RETRY_CODES;
   static readonly ObjectToStructConverter = ObjectToStructConverter;
+  static readonly TotalTimeoutError = TotalTimeoutError;
+  static readonly ServiceClosedError = ServiceClosedError;
 
   /**
    * Service is a base class, meant to be inherited from by a "service," like
@@ -411,10 +845,27 @@ export class GrpcService extends Service {
       }
     }
 
+    this.grpcInterceptors = (config.grpcInterceptors || []).slice();
+    this.backoffSettings = config.backoffSettings;
+    this.flowControl = config.flowControl;
+    this.useGrpcStatusCodes = !!config.useGrpcStatusCodes;
+    this.grpcErrorCodeToHttp = GrpcService.mergeGrpcErrorCodeToHttp_(
+      config.grpcErrorCodeToHttp
+    );
+    this.grpcServiceConfig = is.string(config.grpcServiceConfig)
+      ? JSON.parse(config.grpcServiceConfig as string)
+      : config.grpcServiceConfig;
     this.maxRetries = options.maxRetries;
     this.userAgent = util.getUserAgentFromPackageJson(config.packageJson);
     this.activeServiceMap_ = new Map();
+    this.channelPool = config.channelPool;
+    this.channelPools_ = new Map();
+    this.channelOptions = config.channelOptions;
+    this.healthCheckService = config.healthCheckService;
     this.protos = {};
+    this.protoMethods = {};
+    this.protoChannelPools = {};
+    this.protoChannelOptions = {};
     const protoServices = config.protoServices;
 
     Object.keys(protoServices).forEach(name => {
@@ -432,6 +883,18 @@ export class GrpcService extends Service {
       if (protoConfig.baseUrl) {
         service.baseUrl = protoConfig.baseUrl;
       }
+
+      if (protoConfig.methods) {
+        this.protoMethods[name] = protoConfig.methods;
+      }
+
+      if (protoConfig.channelPool) {
+        this.protoChannelPools[name] = protoConfig.channelPool;
+      }
+
+      if (protoConfig.channelOptions) {
+        this.protoChannelOptions[name] = protoConfig.channelOptions;
+      }
     });
   }
 
@@ -443,8 +906,25 @@ export class GrpcService extends Service {
    * @param {string} protoOpts.method - The method name.
    * @param {number=} protoOpts.timeout - After how many milliseconds should the
    *     request cancel.
+   * @param {number=} protoOpts.attemptTimeout - After how many milliseconds
+   *     should each attempt cancel.
+   * @param {number=} protoOpts.totalTimeout - After how many milliseconds
+   *     should the request, including its retries, fail.
+   * @param {object=} protoOpts.metadata - Metadata to send with this request
+   *     only.
+   * @param {boolean=} protoOpts.idempotent - Whether the request is safe to
+   *     replay.
+   * @param {AbortSignal=} protoOpts.signal - A signal to cancel the request
+   *     with.
    * @param {object} reqOpts - The request options.
    * @param {function=} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   *     Its `metadata` holds the trailing metadata of the call.
+   * @param {object} callback.response - The response message.
+   * @param {Metadata} callback.metadata - The metadata the server sent with
+   *     the response.
+   * @param {object} callback.status - The final status of the call, with its
+   *     trailing metadata.
    */
   request(reqOpts: DecorateRequestOptions): Promise<Response>;
   request(
@@ -477,15 +957,60 @@ export class GrpcService extends Service {
      * Hence the weird casting below.
      */
     const protoOpts = pOpts as ProtoOpts;
-    let reqOpts = rOpts as DecorateRequestOptions;
+    const reqOpts = rOpts as DecorateRequestOptions;
 
     if (global['GCLOUD_SANDBOX_ENV']) {
       return global['GCLOUD_SANDBOX_ENV'];
     }
 
+    if (this.closing_) {
+      setImmediate(() => {
+        callback!(
+          this.toCallerError_(
+            GrpcService.createClosedError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+      return;
+    }
+
+    const call = this.trackCall_(protoOpts.signal);
+    const signal = call.signal;
+    const done = callback!;
+
+    callback = (err, resp?, metadata?, status?) => {
+      call.end();
+      done(err, resp, metadata, status);
+    };
+
+    if (signal.aborted) {
+      setImmediate(() => {
+        callback!(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+      return;
+    }
+
     if (!this.grpcCredentials) {
+      const removeAbortListener = GrpcService.onAbort_(signal, () => {
+        callback!(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+
       // We must establish an authClient to give to grpc.
       this.getGrpcCredentials_((err, credentials) => {
+        removeAbortListener();
+
+        if (signal.aborted) {
+          return;
+        }
+
         if (err) {
           callback!(err);
           return;
@@ -498,16 +1023,39 @@ export class GrpcService extends Service {
       return;
     }
 
-    const service = this.getService_(protoOpts);
-    const metadata = this.grpcMetadata;
     const grpcOpts: GrpcOptions = {};
-
-    if (typeof protoOpts.timeout === 'number') {
-      grpcOpts.deadline = GrpcService.createDeadline_(protoOpts.timeout);
-    }
+    let service;
+    let methodSettings: MethodSettings;
+    let totalDeadline: Date | undefined;
+    let context: InterceptorContext;
 
     try {
-      reqOpts = this.decorateRequest_(reqOpts);
+      service = this.getService_(protoOpts);
+      methodSettings = this.getMethodSettings_(protoOpts);
+
+      const timeout = is.number(protoOpts.timeout)
+        ? protoOpts.timeout
+        : methodSettings.timeout;
+
+      if (typeof timeout === 'number') {
+        grpcOpts.deadline = GrpcService.createDeadline_(timeout);
+      }
+
+      if (is.number(protoOpts.totalTimeout)) {
+        totalDeadline = GrpcService.createDeadline_(protoOpts.totalTimeout!);
+        grpcOpts.deadline = GrpcService.getEarliestDeadline_(
+          grpcOpts.deadline,
+          totalDeadline
+        );
+      }
+
+      context = this.interceptRequest_({
+        type: 'unary',
+        protoOpts,
+        reqOpts: this.decorateRequest_(reqOpts),
+        metadata: this.getRequestMetadata_(protoOpts)!,
+        callOptions: grpcOpts,
+      });
     } catch (e) {
       callback!(e);
       return;
@@ -518,59 +1066,244 @@ export class GrpcService extends Service {
     // error.
     let respError;
 
+    const backoff = this.createBackoff_(protoOpts, methodSettings!);
+    backoff.deadline = totalDeadline && totalDeadline.getTime();
+    const retryableCodes = this.getRetryableCodes_(protoOpts, methodSettings!);
+    let lastStatusCode: number | undefined;
+    let activeCall;
+    let responseMetadata: grpc.Metadata | undefined;
+    let responseStatus: grpc.StatusObject | undefined;
+
+    const makeRequest = onResponse => {
+      respError = null;
+      lastStatusCode = undefined;
+      responseMetadata = undefined;
+      responseStatus = undefined;
+
+      try {
+        activeCall = service[protoOpts.method](
+          context.reqOpts,
+          context.metadata,
+          GrpcService.getAttemptCallOptions_(context.callOptions, protoOpts),
+          (err, resp) => {
+            if (err) {
+              lastStatusCode = err.code;
+              respError = GrpcService.decorateError_(
+                err,
+                this.grpcErrorCodeToHttp
+              );
+
+              if (respError) {
+                onResponse(null, respError);
+                return;
+              }
+              onResponse(err, resp);
+              return;
+            }
+
+            // The status of the call is emitted right after the response.
+            process.nextTick(() => {
+              onResponse(null, resp);
+            });
+          }
+        );
+      } catch (e) {
+        // The call could not be made, e.g. because its channel was closed.
+        // The error has no status, so it is not retried.
+        respError = e;
+        onResponse(null, respError);
+        return;
+      }
+
+      if (activeCall) {
+        activeCall
+          .on('metadata', metadata => {
+            responseMetadata = metadata;
+          })
+          .on('status', status => {
+            responseStatus = status;
+          });
+      }
+
+      return activeCall;
+    };
+
     const retryOpts = Object.assign(
       {
         retries: this.maxRetries,
         currentRetryAttempt: 0,
-        shouldRetryFn: GrpcService.shouldRetryRequest_,
+        shouldRetryFn: retryableCodes
+          ? () => retryableCodes.indexOf(lastStatusCode!) > -1
+          : GrpcService.shouldRetryRequest_,
+
+        // An error without a status may have been received after the server
+        // processed the call, so only idempotent calls are retried on it.
+        noResponseRetries: this.isIdempotent_(protoOpts) ? undefined : 0,
+
+        // The delay between attempts is scheduled by `backoff`, so the one
+        // retry-request would add is switched off.
+        maxRetryDelay: 0,
 
         // retry-request determines if it should retry from the incoming HTTP
         // response status. gRPC always returns an error proto message. We
         // pass that "error" into retry-request to act as the HTTP response,
         // so it can use the status code to determine if it should retry.
         request(_, onResponse) {
-          respError = null;
-          return service[protoOpts.method](
-            reqOpts,
-            metadata,
-            grpcOpts,
-            (err, resp) => {
-              if (err) {
-                respError = GrpcService.decorateError_(err);
-
-                if (respError) {
-                  onResponse(null, respError);
-                  return;
-                }
-                onResponse(err, resp);
-                return;
+          if (signal.aborted) {
+            // retry-request may still make an attempt it had scheduled.
+            return;
+          }
+
+          const delay = backoff.takeDelay();
+
+          if (delay === 0) {
+            return makeRequest(onResponse);
+          }
+
+          let activeRequest;
+          const timeout = setTimeout(() => {
+            activeRequest = makeRequest(onResponse);
+          }, delay);
+
+          return {
+            abort() {
+              clearTimeout(timeout);
+              if (activeRequest && activeRequest.cancel) {
+                activeRequest.cancel();
               }
-
-              onResponse(null, resp);
-            }
-          );
+            },
+          };
         },
       },
+      methodSettings!.retryOpts,
       protoOpts.retryOpts
     );
 
-    return retryRequest(null!, retryOpts, (err, resp: object) => {
+    GrpcService.applyBackoff_(retryOpts, backoff);
+
+    let activeRequest: Abortable | undefined;
+
+    const removeAbortListener = GrpcService.onAbort_(signal, () => {
+      activeRequest!.abort();
+      if (activeCall) {
+        activeCall.cancel();
+      }
+      const err = GrpcService.createCancelledError_(this.grpcErrorCodeToHttp);
+      callback!(this.interceptError_(err, context));
+    });
+
+    activeRequest = retryRequest(null!, retryOpts, (err, resp: object) => {
+      removeAbortListener();
+
+      if (signal.aborted) {
+        return;
+      }
+
       if (!err && resp === respError) {
         err = respError;
         resp = null!;
       }
-      callback!(err, resp as Response);
+      if (err) {
+        err = GrpcService.decorateTotalTimeoutError_(
+          err,
+          protoOpts,
+          backoff,
+          this.grpcErrorCodeToHttp
+        );
+        callback!(this.interceptError_(err, context), resp as Response);
+        return;
+      }
+
+      try {
+        resp = this.interceptResponse_(resp, context);
+      } catch (e) {
+        callback!(e);
+        return;
+      }
+
+      callback!(null, resp as Response, responseMetadata, responseStatus);
+    });
+
+    return activeRequest;
+  }
+
+  /**
+   * Make an authenticated request with gRPC. This is the promise-based
+   * counterpart of `request`, with the same retries and error decoration.
+   *
+   * @param {object} protoOpts - The proto options. See `request`.
+   * @param {object} request - The request message.
+   * @return {Promise<object>} - The response message.
+   */
+  call<TReq extends object, TRes = {}>(
+    protoOpts: ProtoOpts,
+    request: TReq
+  ): Promise<TRes> {
+    return this.callWithMetadata<TReq, TRes>(protoOpts, request).then(
+      result => result.response
+    );
+  }
+
+  /**
+   * Make an authenticated request with gRPC, resolving with the response
+   * message, the metadata the server sent with it and the final status of the
+   * call.
+   *
+   * @param {object} protoOpts - The proto options. See `request`.
+   * @param {object} request - The request message.
+   * @return {Promise<object>} - The response message, metadata and status.
+   */
+  callWithMetadata<TReq extends object, TRes = {}>(
+    protoOpts: ProtoOpts,
+    request: TReq
+  ): Promise<CallResult<TRes>> {
+    return new Promise((resolve, reject) => {
+      const reqOpts = (request as {}) as DecorateRequestOptions;
+
+      this.request(protoOpts, reqOpts, (err, response, metadata, status) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        resolve({
+          response: (response as {}) as TRes,
+          metadata: metadata || new this.grpc!.Metadata(),
+          trailingMetadata:
+            (status && status.metadata) || new this.grpc!.Metadata(),
+          status,
+        });
+      });
     });
   }
 
   /**
    * Make an authenticated streaming request with gRPC.
    *
+   * The metadata the server sends with the response and the final status of
+   * every attempt, with its trailing metadata, are emitted as `metadata` and
+   * `status` events.
+   *
    * @param {object} protoOpts - The proto options.
    * @param {string} protoOpts.service - The service.
    * @param {string} protoOpts.method - The method name.
    * @param {number=} protoOpts.timeout - After how many milliseconds should the
    *     request cancel.
+   * @param {number=} protoOpts.attemptTimeout - After how many milliseconds
+   *     should each attempt cancel.
+   * @param {number=} protoOpts.totalTimeout - After how many milliseconds
+   *     should the request, including its retries, fail.
+   * @param {object=} protoOpts.metadata - Metadata to send with this request
+   *     only.
+   * @param {boolean=} protoOpts.idempotent - Whether the request is safe to
+   *     replay.
+   * @param {AbortSignal=} protoOpts.signal - A signal to cancel the request
+   *     with.
+   * @param {function=} protoOpts.resumeRequest - Build the request to resume
+   *     the stream with from the last message received.
+   * @param {number=} protoOpts.idleTimeout - After how many milliseconds
+   *     without a message should the request fail.
+   * @param {function=} protoOpts.isKeepalive - Tell apart keepalive messages.
    * @param {object} reqOpts - The request options.
    */
   requestStream(reqOpts: DecorateRequestOptions): Request;
@@ -594,7 +1327,7 @@ export class GrpcService extends Service {
       return new PassThrough({objectMode: true});
     }
     const protoOpts = pOpts as ProtoOpts;
-    let reqOpts = rOpts as DecorateRequestOptions;
+    const reqOpts = rOpts as DecorateRequestOptions;
 
     if (!protoOpts.stream) {
       protoOpts.stream = new PassThrough({objectMode: true});
@@ -602,90 +1335,300 @@ export class GrpcService extends Service {
 
     const stream = protoOpts.stream;
 
-    if (!this.grpcCredentials) {
-      // We must establish an authClient to give to grpc.
-      this.getGrpcCredentials_((err, credentials) => {
-        if (err) {
-          stream.destroy(err);
-          return;
-        }
-        this.grpcCredentials = credentials;
-        this.requestStream(protoOpts, reqOpts);
+    if (this.closing_) {
+      setImmediate(() => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createClosedError_(this.grpcErrorCodeToHttp)
+          )
+        );
       });
       return stream;
     }
 
-    const objectMode = !!reqOpts.objectMode;
-    const service = this.getService_(protoOpts);
-    const grpcMetadata = this.grpcMetadata;
-    const grpcOpts: GrpcOptions = {};
+    const call = this.trackCall_(protoOpts.signal);
+    const signal = call.signal;
 
-    if (typeof protoOpts.timeout === 'number') {
-      grpcOpts.deadline = GrpcService.createDeadline_(protoOpts.timeout);
-    }
+    stream.on('end', call.end).on('close', call.end);
 
-    try {
-      reqOpts = this.decorateRequest_(reqOpts);
-    } catch (e) {
+    if (signal.aborted) {
       setImmediate(() => {
-        stream.destroy(e);
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
       });
       return stream;
     }
 
-    const retryOpts = Object.assign(
-      {
-        retries: this.maxRetries,
-        currentRetryAttempt: 0,
-        objectMode,
-        shouldRetryFn: GrpcService.shouldRetryRequest_,
-
-        request() {
-          const ee: EventEmitter = service[protoOpts.method](
-            reqOpts,
-            grpcMetadata,
-            grpcOpts
-          ).on('metadata', () => {
-            // retry-request requires a server response before it
-            // starts emitting data. The closest mechanism grpc
-            // provides is a metadata event, but this does not provide
-            // any kind of response status. So we're faking it here
-            // with code `0` which translates to HTTP 200.
-            //
-            // https://github.com/GoogleCloudPlatform/google-cloud-node/pull/1444#discussion_r71812636
-            const grcpStatus = GrpcService.decorateStatus_({code: 0});
-            ee.emit('response', grcpStatus);
+    if (!this.grpcCredentials) {
+      const removeAbortListener = GrpcService.onAbort_(signal, () => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+
+      // We must establish an authClient to give to grpc.
+      this.getGrpcCredentials_((err, credentials) => {
+        removeAbortListener();
+
+        if (signal.aborted) {
+          return;
+        }
+
+        if (err) {
+          stream.destroy(err);
+          return;
+        }
+        this.grpcCredentials = credentials;
+        this.requestStream(protoOpts, reqOpts);
+      });
+      return stream;
+    }
+
+    const objectMode = !!reqOpts.objectMode;
+    const grpcOpts: GrpcOptions = {};
+    let service;
+    let methodSettings: MethodSettings;
+    let totalDeadline: Date | undefined;
+    let context: InterceptorContext;
+
+    try {
+      service = this.getService_(protoOpts);
+      methodSettings = this.getMethodSettings_(protoOpts);
+
+      const timeout = is.number(protoOpts.timeout)
+        ? protoOpts.timeout
+        : methodSettings.timeout;
+
+      if (typeof timeout === 'number') {
+        grpcOpts.deadline = GrpcService.createDeadline_(timeout);
+      }
+
+      if (is.number(protoOpts.totalTimeout)) {
+        totalDeadline = GrpcService.createDeadline_(protoOpts.totalTimeout!);
+        grpcOpts.deadline = GrpcService.getEarliestDeadline_(
+          grpcOpts.deadline,
+          totalDeadline
+        );
+      }
+
+      context = this.interceptRequest_({
+        type: 'serverStream',
+        protoOpts,
+        reqOpts: this.decorateRequest_(reqOpts),
+        metadata: this.getRequestMetadata_(protoOpts)!,
+        callOptions: grpcOpts,
+      });
+    } catch (e) {
+      setImmediate(() => {
+        stream.destroy(e);
+      });
+      return stream;
+    }
+
+    const retryableCodes = this.getRetryableCodes_(protoOpts, methodSettings!);
+    // tslint:disable-next-line:no-any
+    let retryStream: any;
+    let isIdle = false;
+
+    // Every connection retries on its own. A resumed stream connects again,
+    // continuing from the last message received.
+    const connect = (context: InterceptorContext, reqOpts: {}) => {
+      const backoff = this.createBackoff_(protoOpts, methodSettings!);
+      backoff.deadline = totalDeadline && totalDeadline.getTime();
+      let lastStatusCode: number | undefined;
+      let lastMessage: {} | undefined;
+
+      const makeRequest = () => {
+        lastStatusCode = undefined;
+        let ee: EventEmitter;
+
+        try {
+          ee = service[protoOpts.method](
+            context.reqOpts,
+            context.metadata,
+            GrpcService.getAttemptCallOptions_(context.callOptions, protoOpts)
+          );
+        } catch (e) {
+          // The call could not be made, e.g. because its channel was closed.
+          setImmediate(() => {
+            if (!signal.aborted && !isIdle) {
+              retryStream.abort();
+              stream.destroy(this.interceptError_(e, context));
+            }
           });
-          return ee;
+          return new PassThrough({objectMode: true});
+        }
+
+        ee.on('metadata', metadata => {
+          stream.emit('metadata', metadata);
+        }).on('status', status => {
+          stream.emit('status', status);
+        });
+
+        ee.on('error', err => {
+          lastStatusCode = err.code;
+        });
+
+        return GrpcService.reportResponse_(ee, this.grpcErrorCodeToHttp);
+      };
+
+      const retryOpts = Object.assign(
+        {
+          retries: this.maxRetries,
+          currentRetryAttempt: 0,
+          objectMode,
+          shouldRetryFn: retryableCodes
+            ? () => retryableCodes.indexOf(lastStatusCode!) > -1
+            : GrpcService.shouldRetryRequest_,
+
+          // An error without a status may have been received after the server
+          // processed the call, so only idempotent calls are retried on it.
+          noResponseRetries: this.isIdempotent_(protoOpts) ? undefined : 0,
+
+          // The delay between attempts is scheduled by `backoff`, so the one
+          // retry-request would add is switched off.
+          maxRetryDelay: 0,
+
+          request() {
+            if (signal.aborted) {
+              // retry-request may still make an attempt it had scheduled.
+              return new PassThrough({objectMode: true});
+            }
+
+            const delay = backoff.takeDelay();
+
+            if (delay === 0) {
+              return makeRequest();
+            }
+
+            return GrpcService.createDelayedStream_(delay, makeRequest);
+          },
         },
-      },
-      protoOpts.retryOpts
-    );
+        methodSettings!.retryOpts,
+        protoOpts.retryOpts
+      );
 
-    // tslint:disable-next-line:no-any
-    return (retryRequest(null!, retryOpts) as any)
-      .on('error', err => {
-        const grpcError = GrpcService.decorateError_(err);
-        stream.destroy(grpcError || err);
-      })
-      .on('request', stream.emit.bind(stream, 'request'))
-      .pipe(stream);
+      GrpcService.applyBackoff_(retryOpts, backoff);
+
+      // tslint:disable-next-line:no-any
+      retryStream = (retryRequest(null!, retryOpts) as any)
+        .on('error', err => {
+          if (signal.aborted || isIdle) {
+            return;
+          }
+
+          const statusCode = err.code;
+          const grpcError = GrpcService.decorateTotalTimeoutError_(
+            GrpcService.decorateError_(err, this.grpcErrorCodeToHttp) || err,
+            protoOpts,
+            backoff,
+            this.grpcErrorCodeToHttp
+          );
+
+          const isRetryable = retryableCodes
+            ? retryableCodes.indexOf(statusCode) > -1
+            : GrpcService.shouldRetryRequest_(grpcError);
+
+          if (
+            lastMessage &&
+            isRetryable &&
+            !(grpcError instanceof TotalTimeoutError)
+          ) {
+            let resumeReqOpts: {} | void;
+            let resumeContext: InterceptorContext;
+
+            try {
+              resumeReqOpts = protoOpts.resumeRequest!(lastMessage, reqOpts);
+
+              if (resumeReqOpts) {
+                resumeContext = this.interceptRequest_({
+                  type: 'serverStream',
+                  protoOpts,
+                  reqOpts: this.decorateRequest_(resumeReqOpts),
+                  metadata: this.getRequestMetadata_(protoOpts)!,
+                  callOptions: grpcOpts,
+                });
+              }
+            } catch (e) {
+              stream.destroy(e);
+              return;
+            }
+
+            if (resumeReqOpts) {
+              connect(resumeContext!, resumeReqOpts);
+              return;
+            }
+          }
+
+          stream.destroy(this.interceptError_(grpcError, context));
+        })
+        .on('request', stream.emit.bind(stream, 'request'));
+
+      if (protoOpts.resumeRequest) {
+        retryStream.on('data', message => {
+          if (!protoOpts.isKeepalive || !protoOpts.isKeepalive(message)) {
+            lastMessage = message;
+          }
+        });
+      }
+
+      const messages = GrpcService.watchIdle_(retryStream, protoOpts, () => {
+        isIdle = true;
+        retryStream.abort();
+        const err = GrpcService.createIdleTimeoutError_(
+          protoOpts.idleTimeout!,
+          this.grpcErrorCodeToHttp
+        );
+        stream.destroy(this.interceptError_(err, context));
+      });
+
+      this.interceptResponseStream_(messages, context, stream).pipe(stream);
+    };
+
+    connect(context!, reqOpts);
+
+    const removeAbortListener = GrpcService.onAbort_(signal, () => {
+      retryStream.abort();
+      const err = GrpcService.createCancelledError_(this.grpcErrorCodeToHttp);
+      stream.destroy(this.interceptError_(err, context));
+    });
+    stream.on('close', removeAbortListener);
+
+    return stream;
   }
 
   /**
    * Make an authenticated writable streaming request with gRPC.
    *
+   * The metadata the server sends with the response and the final status of
+   * the call, with its trailing metadata, are emitted as `metadata` and
+   * `status` events. The decorated status is emitted as a `response` event.
+   *
    * @param {object} protoOpts - The proto options.
    * @param {string} protoOpts.service - The service.
    * @param {string} protoOpts.method - The method name.
    * @param {number=} protoOpts.timeout - After how many milliseconds should the
    *     request cancel.
+   * @param {number=} protoOpts.attemptTimeout - After how many milliseconds
+   *     should the request cancel.
+   * @param {number=} protoOpts.totalTimeout - After how many milliseconds
+   *     should the request fail.
+   * @param {object=} protoOpts.metadata - Metadata to send with this request
+   *     only.
+   * @param {AbortSignal=} protoOpts.signal - A signal to cancel the request
+   *     with.
+   * @param {object=} protoOpts.flowControl - Limits on the messages waiting
+   *     to be sent.
    * @param {object} reqOpts - The request options.
    */
   requestWritableStream(protoOpts, reqOpts) {
-    const stream =
-      // tslint:disable-next-line:no-any
-      (protoOpts.stream = protoOpts.stream || (duplexify as any).obj());
+    const stream = (protoOpts.stream =
+      protoOpts.stream || this.createDuplexify_(protoOpts));
 
     if (global['GCLOUD_SANDBOX_ENV']) {
       return stream;
@@ -693,9 +1636,50 @@ export class GrpcService extends Service {
 
     const self = this;
 
+    if (this.closing_) {
+      setImmediate(() => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createClosedError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+      return stream;
+    }
+
+    const call = this.trackCall_(protoOpts.signal);
+    const signal = call.signal;
+
+    stream.on('status', call.end).on('close', call.end);
+
+    if (signal.aborted) {
+      setImmediate(() => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+      return stream;
+    }
+
     if (!this.grpcCredentials) {
+      const removeAbortListener = GrpcService.onAbort_(signal, () => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+
       // We must establish an authClient to give to grpc.
       this.getGrpcCredentials_((err, credentials) => {
+        removeAbortListener();
+
+        if (signal.aborted) {
+          return;
+        }
+
         if (err) {
           stream.destroy(err);
           return;
@@ -708,16 +1692,47 @@ export class GrpcService extends Service {
       return stream;
     }
 
-    const service = this.getService_(protoOpts);
-    const grpcMetadata = this.grpcMetadata;
     const grpcOpts: GrpcOptions = {};
+    let isTotalDeadline = false;
+
+    // There are no retries, so every timeout bounds the single attempt.
+    [protoOpts.timeout, protoOpts.attemptTimeout]
+      .filter(is.number)
+      .forEach(timeout => {
+        grpcOpts.deadline = GrpcService.getEarliestDeadline_(
+          grpcOpts.deadline,
+          GrpcService.createDeadline_(timeout)
+        );
+      });
 
-    if (is.number(protoOpts.timeout)) {
-      grpcOpts.deadline = GrpcService.createDeadline_(protoOpts.timeout);
+    if (is.number(protoOpts.totalTimeout)) {
+      const totalDeadline = GrpcService.createDeadline_(protoOpts.totalTimeout);
+      isTotalDeadline =
+        !grpcOpts.deadline || totalDeadline <= grpcOpts.deadline;
+      grpcOpts.deadline = GrpcService.getEarliestDeadline_(
+        grpcOpts.deadline,
+        totalDeadline
+      );
     }
 
+    let service;
+    let context: InterceptorContext;
+    let grpcStream;
+
     try {
-      reqOpts = this.decorateRequest_(reqOpts);
+      service = this.getService_(protoOpts);
+      context = this.interceptRequest_({
+        type: 'clientStream',
+        protoOpts,
+        reqOpts: this.decorateRequest_(reqOpts),
+        metadata: this.getRequestMetadata_(protoOpts)!,
+        callOptions: grpcOpts,
+      });
+      grpcStream = service[protoOpts.method](
+        context.reqOpts,
+        context.metadata,
+        context.callOptions
+      );
     } catch (e) {
       setImmediate(() => {
         stream.destroy(e);
@@ -725,240 +1740,1535 @@ export class GrpcService extends Service {
       return stream;
     }
 
-    const grpcStream = service[protoOpts.method](
-      reqOpts,
-      grpcMetadata,
-      grpcOpts
-    )
+    grpcStream
+      .on('metadata', metadata => {
+        stream.emit('metadata', metadata);
+      })
       .on('status', status => {
-        const grcpStatus = GrpcService.decorateStatus_(status);
+        stream.emit('status', status);
+        const grcpStatus = GrpcService.decorateStatus_(
+          status,
+          self.grpcErrorCodeToHttp
+        );
         stream.emit('response', grcpStatus || status);
       })
       .on('error', err => {
-        const grpcError = GrpcService.decorateError_(err);
-        stream.destroy(grpcError || err);
+        if (signal.aborted) {
+          return;
+        }
+
+        const grpcError = GrpcService.decorateSingleAttemptError_(
+          err,
+          protoOpts,
+          isTotalDeadline,
+          self.grpcErrorCodeToHttp
+        );
+        stream.destroy(self.interceptError_(grpcError, context));
       });
 
-    stream.setReadable(grpcStream);
-    stream.setWritable(grpcStream);
+    const removeAbortListener = GrpcService.onAbort_(signal, () => {
+      grpcStream.cancel();
+      const err = GrpcService.createCancelledError_(self.grpcErrorCodeToHttp);
+      stream.destroy(self.interceptError_(err, context));
+    });
+    stream.on('close', removeAbortListener);
+
+    stream.setReadable(
+      self.interceptResponseStream_(grpcStream, context, stream)
+    );
+    stream.setWritable(self.createFlowControl_(protoOpts, service, grpcStream));
 
     return stream;
   }
 
   /**
-   * Decode a protobuf Struct's value.
+   * Make an authenticated bidirectional streaming request with gRPC.
    *
-   * @param {object} value - A Struct's Field message.
-   * @return {*} - The decoded value.
+   * The returned stream writes requests to and reads responses from the call.
+   * Ending it half-closes the call: no more requests are sent, but responses
+   * are read until the server ends the call.
+   *
+   * The metadata the server sends with the response and the final status of
+   * the call, with its trailing metadata, are emitted as `metadata` and
+   * `status` events. The decorated status is emitted as a `response` event.
+   *
+   * @param {object} protoOpts - The proto options.
+   * @param {string} protoOpts.service - The service.
+   * @param {string} protoOpts.method - The method name.
+   * @param {number=} protoOpts.timeout - After how many milliseconds should the
+   *     request cancel.
+   * @param {number=} protoOpts.attemptTimeout - After how many milliseconds
+   *     should the request cancel.
+   * @param {number=} protoOpts.totalTimeout - After how many milliseconds
+   *     should the request fail.
+   * @param {object=} protoOpts.metadata - Metadata to send with this request
+   *     only.
+   * @param {AbortSignal=} protoOpts.signal - A signal to cancel the request
+   *     with.
+   * @param {object=} protoOpts.flowControl - Limits on the messages waiting
+   *     to be sent.
+   * @param {number=} protoOpts.idleTimeout - After how many milliseconds
+   *     without a message should the request fail.
+   * @param {function=} protoOpts.isKeepalive - Tell apart keepalive messages.
+   * @return {Duplex}
    */
-  static decodeValue_(value) {
-    switch (value.kind) {
-      case 'structValue': {
-        return GrpcService.structToObj_(value.structValue);
-      }
+  requestDuplexStream(protoOpts) {
+    const stream = (protoOpts.stream =
+      protoOpts.stream || this.createDuplexify_(protoOpts));
 
-      case 'nullValue': {
-        return null;
-      }
+    if (global['GCLOUD_SANDBOX_ENV']) {
+      return stream;
+    }
 
-      case 'listValue': {
-        return value.listValue.values.map(GrpcService.decodeValue_);
-      }
+    const self = this;
 
-      default: {
-        return value[value.kind];
-      }
+    if (this.closing_) {
+      setImmediate(() => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createClosedError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+      return stream;
+    }
+
+    const call = this.trackCall_(protoOpts.signal);
+    const signal = call.signal;
+
+    stream.on('status', call.end).on('close', call.end);
+
+    if (signal.aborted) {
+      setImmediate(() => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+      return stream;
+    }
+
+    if (!this.grpcCredentials) {
+      const removeAbortListener = GrpcService.onAbort_(signal, () => {
+        stream.destroy(
+          this.toCallerError_(
+            GrpcService.createCancelledError_(this.grpcErrorCodeToHttp)
+          )
+        );
+      });
+
+      // We must establish an authClient to give to grpc.
+      this.getGrpcCredentials_((err, credentials) => {
+        removeAbortListener();
+
+        if (signal.aborted) {
+          return;
+        }
+
+        if (err) {
+          stream.destroy(err);
+          return;
+        }
+
+        self.grpcCredentials = credentials;
+        self.requestDuplexStream(protoOpts);
+      });
+
+      return stream;
+    }
+
+    const grpcOpts: GrpcOptions = {};
+    let isTotalDeadline = false;
+
+    // There are no retries, so every timeout bounds the single attempt.
+    [protoOpts.timeout, protoOpts.attemptTimeout]
+      .filter(is.number)
+      .forEach(timeout => {
+        grpcOpts.deadline = GrpcService.getEarliestDeadline_(
+          grpcOpts.deadline,
+          GrpcService.createDeadline_(timeout)
+        );
+      });
+
+    if (is.number(protoOpts.totalTimeout)) {
+      const totalDeadline = GrpcService.createDeadline_(protoOpts.totalTimeout);
+      isTotalDeadline =
+        !grpcOpts.deadline || totalDeadline <= grpcOpts.deadline;
+      grpcOpts.deadline = GrpcService.getEarliestDeadline_(
+        grpcOpts.deadline,
+        totalDeadline
+      );
+    }
+
+    let service;
+    let context: InterceptorContext;
+    let grpcStream;
+
+    try {
+      service = this.getService_(protoOpts);
+      context = this.interceptRequest_({
+        type: 'bidiStream',
+        protoOpts,
+        reqOpts: {},
+        metadata: this.getRequestMetadata_(protoOpts)!,
+        callOptions: grpcOpts,
+      });
+      grpcStream = service[protoOpts.method](
+        context.metadata,
+        context.callOptions
+      );
+    } catch (e) {
+      setImmediate(() => {
+        stream.destroy(e);
+      });
+      return stream;
     }
+
+    grpcStream
+      .on('metadata', metadata => {
+        stream.emit('metadata', metadata);
+      })
+      .on('status', status => {
+        stream.emit('status', status);
+        const grcpStatus = GrpcService.decorateStatus_(
+          status,
+          self.grpcErrorCodeToHttp
+        );
+        stream.emit('response', grcpStatus || status);
+      })
+      .on('error', err => {
+        if (signal.aborted || isIdle) {
+          return;
+        }
+
+        const grpcError = GrpcService.decorateSingleAttemptError_(
+          err,
+          protoOpts,
+          isTotalDeadline,
+          self.grpcErrorCodeToHttp
+        );
+        stream.destroy(self.interceptError_(grpcError, context));
+      });
+
+    const removeAbortListener = GrpcService.onAbort_(signal, () => {
+      grpcStream.cancel();
+      const err = GrpcService.createCancelledError_(self.grpcErrorCodeToHttp);
+      stream.destroy(self.interceptError_(err, context));
+    });
+    stream.on('close', removeAbortListener);
+
+    let isIdle = false;
+
+    const messages = GrpcService.watchIdle_(grpcStream, protoOpts, () => {
+      isIdle = true;
+      grpcStream.cancel();
+      const err = GrpcService.createIdleTimeoutError_(
+        protoOpts.idleTimeout,
+        self.grpcErrorCodeToHttp
+      );
+      stream.destroy(self.interceptError_(err, context));
+    });
+
+    stream.setReadable(
+      self.interceptResponseStream_(messages, context, stream)
+    );
+    stream.setWritable(self.createFlowControl_(protoOpts, service, grpcStream));
+
+    return stream;
   }
 
   /**
-   * Convert a raw value to a type-denoted protobuf message-friendly object.
-   *
-   *
-   * @param {*} value - The input value.
-   * @return {*} - The encoded value.
+   * Stop making the calls of a channel affinity key with the same client, e.g.
+   * once the session or transaction the key stands for has ended. The next
+   * call with the key picks a client again.
    *
-   * @example
-   * ObjectToStructConverter.encodeValue('Hi');
-   * // {
-   * //   stringValue: 'Hello!'
-   * // }
+   * @param {string} serviceName - The name of the service.
+   * @param {string} channelAffinityKey - The key given to the calls.
    */
-  static encodeValue_(value) {
-    return new GrpcService.ObjectToStructConverter().encodeValue_(value);
+  releaseChannelAffinity(serviceName: string, channelAffinityKey: string) {
+    const pool = this.channelPools_.get(serviceName);
+
+    if (pool) {
+      pool.removeAffinity(channelAffinityKey);
+    }
   }
 
   /**
-   * Creates a deadline.
-   *
-   * @private
+   * Wait for a client of a service to connect.
    *
-   * @param {number} timeout - Timeout in miliseconds.
-   * @return {date} deadline - The deadline in Date object form.
+   * @param {string} serviceName - The name of the service.
+   * @param {date|number} deadline - When to stop waiting.
+   * @return {Promise<void>} - Resolves once the client is connected. Rejects
+   *     with a `DeadlineExceededError` if it did not connect in time.
    */
-  private static createDeadline_(timeout: number) {
-    return new Date(Date.now() + timeout);
+  waitForReady(serviceName: string, deadline: Date | number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.closing_) {
+        reject(
+          this.toCallerError_(
+            GrpcService.createClosedError_(this.grpcErrorCodeToHttp)
+          )
+        );
+        return;
+      }
+
+      if (!this.grpcCredentials) {
+        // We must establish an authClient to give to grpc.
+        this.getGrpcCredentials_((err, credentials) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+
+          this.grpcCredentials = credentials;
+          this.waitForReady(serviceName, deadline).then(resolve, reject);
+        });
+        return;
+      }
+
+      const client = this.getService_({service: serviceName});
+
+      client.waitForReady(deadline, (err?: Error) => {
+        if (err) {
+          reject(
+            this.toCallerError_(
+              GrpcService.decorateError_(
+                Object.assign(err, {code: grpc.status.DEADLINE_EXCEEDED}),
+                this.grpcErrorCodeToHttp
+              )!
+            )
+          );
+          return;
+        }
+
+        resolve();
+      });
+    });
   }
 
   /**
-   * Checks for a grpc status code and extends the error object with additional
-   * information.
-   *
-   * @private
+   * Check whether a service is serving, with the standard gRPC health checking
+   * service of the endpoint.
    *
-   * @param {error|object} err - The grpc error.
-   * @return {error|null}
+   * @param {string=} service - The name of the service to check. (Default:
+   *     the `healthCheckService` of the config)
+   * @return {Promise<string>} - The serving status, e.g. `SERVING`.
    */
-  static decorateError_(err: Error): Error | null {
-    const errorObj = is.error(err) ? err : {};
-    return GrpcService.decorateGrpcResponse_(errorObj, err);
+  checkHealth(service?: string): Promise<ServingStatus> {
+    return this.call<HealthCheckRequest, HealthCheckResponse>(
+      {service: HEALTH_SERVICE_NAME, method: 'check'},
+      {service: this.getHealthCheckService_(service)}
+    ).then(response => response.status);
   }
 
   /**
-   * Checks for a grpc status code and extends the supplied object with
-   * additional information.
-   *
-   * @private
+   * Watch whether a service is serving, with the standard gRPC health checking
+   * service of the endpoint.
    *
-   * @param {object} obj - The object to be extended.
-   * @param {object} response - The grpc response.
-   * @return {object|null}
+   * @param {string=} service - The name of the service to watch. (Default:
+   *     the `healthCheckService` of the config)
+   * @return {Duplex} - A stream of the serving status, e.g. `SERVING`,
+   *     starting with the current one and then every time it changes.
+   */
+  watchHealth(service?: string): Duplex {
+    const stream = new Transform({
+      objectMode: true,
+      transform: (response: HealthCheckResponse, encoding, next) => {
+        next(undefined, response.status);
+      },
+    });
+    const request: HealthCheckRequest = {
+      service: this.getHealthCheckService_(service),
+    };
+
+    return this.requestStream(
+      {service: HEALTH_SERVICE_NAME, method: 'watch', stream},
+      (Object.assign(
+        {objectMode: true},
+        request
+      ) as {}) as DecorateRequestOptions
+    );
+  }
+
+  /**
+   * Replace the credentials calls are made with. The cached clients are
+   * replaced with clients that use the new credentials. The calls in progress
+   * keep their client, which is closed once they end.
+   *
+   * @param {ChannelCredentials=} credentials - The new credentials. By
+   *     default, they are got again from the auth client.
+   * @return {Promise<void>} - Resolves once the credentials are replaced.
+   */
+  updateCredentials(credentials?: {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.closing_) {
+        reject(
+          this.toCallerError_(
+            GrpcService.createClosedError_(this.grpcErrorCodeToHttp)
+          )
+        );
+        return;
+      }
+
+      if (credentials) {
+        this.replaceCredentials_(credentials);
+        resolve();
+        return;
+      }
+
+      this.getGrpcCredentials_((err, credentials) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        this.updateCredentials(credentials).then(resolve, reject);
+      });
+    });
+  }
+
+  /**
+   * Listen for events of the service:
+   *
+   *   - `connectivityStateChange`: The connectivity state of a client of a
+   *     service changed. While there are listeners, the channels are watched
+   *     until the service is closed.
+   *   - `credentialsChange`: The credentials were replaced with
+   *     `updateCredentials`.
+   *
+   * @param {string} event - The name of the event.
+   * @param {function} listener - The function to run with every event.
+   * @return {GrpcService}
+   */
+  on(
+    event: 'connectivityStateChange',
+    listener: (change: ConnectivityStateChange) => void
+  ): this;
+  on(event: 'credentialsChange', listener: () => void): this;
+  on(
+    event: 'connectivityStateChange' | 'credentialsChange',
+    listener: (change: ConnectivityStateChange) => void
+  ): this {
+    this.events_.on(event, listener);
+
+    if (event === 'connectivityStateChange') {
+      this.activeServiceMap_.forEach((client, serviceName) => {
+        this.watchClient_(serviceName, 0, client);
+      });
+      this.channelPools_.forEach((pool, serviceName) => {
+        pool.clients.forEach((client, index) => {
+          this.watchClient_(serviceName, index, client);
+        });
+      });
+    }
+
+    return this;
+  }
+
+  /**
+   * Stop listening for events of the service.
+   *
+   * @param {string} event - The name of the event.
+   * @param {function} listener - The function given to `on`.
+   * @return {GrpcService}
+   */
+  removeListener(
+    event: 'connectivityStateChange',
+    listener: (change: ConnectivityStateChange) => void
+  ): this;
+  removeListener(event: 'credentialsChange', listener: () => void): this;
+  removeListener(
+    event: 'connectivityStateChange' | 'credentialsChange',
+    listener: (change: ConnectivityStateChange) => void
+  ): this {
+    this.events_.removeListener(event, listener);
+    return this;
+  }
+
+  /**
+   * Close the clients of the service. Calls made once the service is closing
+   * fail with a `ServiceClosedError`.
+   *
+   * @param {object=} options - How to close the service.
+   * @param {boolean=} options.graceful - Whether to wait for the calls in
+   *     progress to end. Otherwise they are cancelled. (Default: `true`)
+   * @param {number=} options.timeoutMs - After how many milliseconds the calls
+   *     still in progress are cancelled.
+   * @return {Promise<void>} - Resolves once the clients are closed.
+   */
+  close(options: CloseOptions = {}): Promise<void> {
+    if (!this.closing_) {
+      this.closing_ = new Promise<void>(resolve => {
+        const onCallsEnded = () => {
+          clearTimeout(timeout!);
+          delete this.onCallsEnded_;
+          this.closeClients_();
+          resolve();
+        };
+        let timeout: NodeJS.Timer | undefined;
+
+        if (this.activeCalls_.size === 0) {
+          onCallsEnded();
+          return;
+        }
+
+        if (options.graceful === false) {
+          this.cancelCalls_();
+          onCallsEnded();
+          return;
+        }
+
+        this.onCallsEnded_ = onCallsEnded;
+
+        if (typeof options.timeoutMs === 'number') {
+          timeout = setTimeout(() => {
+            this.cancelCalls_();
+            onCallsEnded();
+          }, options.timeoutMs);
+        }
+      });
+    }
+
+    return this.closing_;
+  }
+
+  /**
+   * Decode a protobuf Struct's value.
+   *
+   * @param {object} value - A Struct's Field message.
+   * @return {*} - The decoded value.
+   */
+  static decodeValue_(value) {
+    switch (value.kind) {
+      case 'structValue': {
+        return GrpcService.structToObj_(value.structValue);
+      }
+
+      case 'nullValue': {
+        return null;
+      }
+
+      case 'listValue': {
+        return value.listValue.values.map(GrpcService.decodeValue_);
+      }
+
+      default: {
+        return value[value.kind];
+      }
+    }
+  }
+
+  /**
+   * Convert a raw value to a type-denoted protobuf message-friendly object.
+   *
+   *
+   * @param {*} value - The input value.
+   * @return {*} - The encoded value.
+   *
+   * @example
+   * ObjectToStructConverter.encodeValue('Hi');
+   * // {
+   * //   stringValue: 'Hello!'
+   * // }
+   */
+  static encodeValue_(value) {
+    return new GrpcService.ObjectToStructConverter().encodeValue_(value);
+  }
+
+  /**
+   * Creates a deadline.
+   *
+   * @private
+   *
+   * @param {number} timeout - Timeout in miliseconds.
+   * @return {date} deadline - The deadline in Date object form.
+   */
+  private static createDeadline_(timeout: number) {
+    return new Date(Date.now() + timeout);
+  }
+
+  /**
+   * Create the error a call fails with when it is cancelled through its
+   * `protoOpts.signal`.
+   *
+   * @private
+   *
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {error}
+   */
+  private static createCancelledError_(
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ) {
+    const err = Object.assign(new Error('The call was cancelled.'), {
+      code: grpc.status.CANCELLED,
+    });
+    return GrpcService.decorateError_(err, codeMap)!;
+  }
+
+  /**
+   * Create the error a call fails with when it is made once the service is
+   * closing.
+   *
+   * @private
+   *
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {error}
+   */
+  private static createClosedError_(
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ) {
+    return new ServiceClosedError(
+      codeMap[grpc.status.FAILED_PRECONDITION].code
+    );
+  }
+
+  /**
+   * Create the error a stream fails with when it received no message within
+   * its `protoOpts.idleTimeout`.
+   *
+   * @private
+   *
+   * @param {number} idleTimeout - The idle timeout of the stream.
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {error}
+   */
+  private static createIdleTimeoutError_(
+    idleTimeout: number,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ) {
+    const err = Object.assign(
+      new Error(`No message received for ${idleTimeout}ms.`),
+      {code: grpc.status.DEADLINE_EXCEEDED}
+    );
+    return GrpcService.decorateError_(err, codeMap)!;
+  }
+
+  /**
+   * Watch the messages of a streaming call, calling `onIdle` once none were
+   * received within `protoOpts.idleTimeout`. Keepalive messages, as told by
+   * `protoOpts.isKeepalive`, are dropped.
+   *
+   * @private
+   *
+   * @param {stream} source - The messages received.
+   * @param {object} protoOpts - The proto options.
+   * @param {function} onIdle - The function to run once the stream is idle.
+   * @return {stream} - The stream to read messages from.
+   */
+  private static watchIdle_(
+    source: Duplex,
+    protoOpts: ProtoOpts,
+    onIdle: () => void
+  ): Duplex {
+    const {idleTimeout, isKeepalive} = protoOpts;
+
+    if (!is.number(idleTimeout) && !isKeepalive) {
+      return source;
+    }
+
+    let timeout: NodeJS.Timer | undefined;
+
+    const stopTimer = () => {
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = undefined;
+      }
+    };
+
+    const startTimer = () => {
+      stopTimer();
+      if (is.number(idleTimeout)) {
+        timeout = setTimeout(onIdle, idleTimeout!);
+      }
+    };
+
+    const watchingStream = new Transform({
+      objectMode: true,
+      transform: (message, encoding, next) => {
+        startTimer();
+        next(undefined, isKeepalive && isKeepalive(message) ? null : message);
+      },
+      flush: next => {
+        stopTimer();
+        next();
+      },
+    });
+
+    // A stream that fails is not idle.
+    source.on('close', stopTimer).on('error', stopTimer);
+
+    startTimer();
+    return source.pipe(watchingStream);
+  }
+
+  /**
+   * Listen for a signal to abort.
+   *
+   * @private
+   *
+   * @param {AbortSignal=} signal - The signal, if any.
+   * @param {function} listener - The function to run once it aborts.
+   * @return {function} - Stops listening.
+   */
+  private static onAbort_(
+    signal: AbortSignalLike | undefined,
+    listener: () => void
+  ) {
+    if (!signal) {
+      return () => {};
+    }
+    signal.addEventListener('abort', listener);
+    return () => signal.removeEventListener('abort', listener);
+  }
+
+  /**
+   * Get the earliest of two deadlines.
+   *
+   * @private
+   *
+   * @param {date=} deadline - A deadline.
+   * @param {date=} otherDeadline - Another deadline.
+   * @return {date|undefined} - The earliest deadline, if any.
+   */
+  private static getEarliestDeadline_(deadline?: Date, otherDeadline?: Date) {
+    if (!deadline || !otherDeadline) {
+      return deadline || otherDeadline;
+    }
+    return deadline <= otherDeadline ? deadline : otherDeadline;
+  }
+
+  /**
+   * Get the call options of a single attempt, which is given a deadline of its
+   * own when `protoOpts.attemptTimeout` is set. The deadline of the call still
+   * applies when it is earlier.
+   *
+   * @private
+   *
+   * @param {object} callOptions - The call options of the call.
+   * @param {object} protoOpts - The proto options.
+   * @return {object} - The call options of the attempt.
+   */
+  private static getAttemptCallOptions_(
+    callOptions: GrpcOptions,
+    protoOpts: ProtoOpts
+  ) {
+    if (!is.number(protoOpts.attemptTimeout)) {
+      return callOptions;
+    }
+
+    return Object.assign({}, callOptions, {
+      deadline: GrpcService.getEarliestDeadline_(
+        callOptions.deadline,
+        GrpcService.createDeadline_(protoOpts.attemptTimeout!)
+      ),
+    });
+  }
+
+  /**
+   * Replace the error of a call with a `TotalTimeoutError` when its
+   * `totalTimeout` has run out, or when no retry could be made before it
+   * would.
+   *
+   * @private
+   *
+   * @param {error} err - The error of the last attempt.
+   * @param {object} protoOpts - The proto options.
+   * @param {Backoff} backoff - The backoff of the call.
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {error}
+   */
+  private static decorateTotalTimeoutError_(
+    err: Error,
+    protoOpts: ProtoOpts,
+    backoff: Backoff,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ): Error {
+    if (!is.number(backoff.deadline)) {
+      return err;
+    }
+
+    const totalTimeout = protoOpts.totalTimeout!;
+    const httpCode = codeMap[grpc.status.DEADLINE_EXCEEDED].code;
+
+    if (backoff.isPastDeadline(0)) {
+      return new TotalTimeoutError(totalTimeout, err, httpCode);
+    }
+    if (backoff.deadlineExceeded) {
+      return new TotalTimeoutError(
+        totalTimeout,
+        err,
+        httpCode,
+        `No retry could be made within the total timeout of ${totalTimeout}ms.`
+      );
+    }
+    return err;
+  }
+
+  /**
+   * Decorate the error of a call made without retries. Its DEADLINE_EXCEEDED
+   * error is replaced with a `TotalTimeoutError` when the deadline of the call
+   * was the one of its `totalTimeout`.
+   *
+   * @private
+   *
+   * @param {error} err - The gRPC error.
+   * @param {object} protoOpts - The proto options.
+   * @param {boolean} isTotalDeadline - Whether the deadline of the call was
+   *     the one of its `totalTimeout`.
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {error}
+   */
+  private static decorateSingleAttemptError_(
+    err: Error & {code?: number},
+    protoOpts: ProtoOpts,
+    isTotalDeadline: boolean,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ): Error {
+    const grpcError = GrpcService.decorateError_(err, codeMap) || err;
+
+    if (!isTotalDeadline || err.code !== grpc.status.DEADLINE_EXCEEDED) {
+      return grpcError;
+    }
+
+    return new TotalTimeoutError(
+      protoOpts.totalTimeout!,
+      grpcError,
+      codeMap[grpc.status.DEADLINE_EXCEEDED].code
+    );
+  }
+
+  /**
+   * Create a stream standing in for a streaming call that is made after a
+   * delay. Events that retry-request relies on are forwarded from the call
+   * once it is made.
+   *
+   * @private
+   *
+   * @param {number} delay - The delay in milliseconds.
+   * @param {function} makeRequest - Makes the streaming call.
+   * @return {stream}
+   */
+  private static createDelayedStream_(
+    delay: number,
+    makeRequest: () => EventEmitter
+  ) {
+    let activeRequest;
+    const delayedStream = new PassThrough({objectMode: true});
+
+    const timeout = setTimeout(() => {
+      activeRequest = makeRequest()
+        .on('response', delayedStream.emit.bind(delayedStream, 'response'))
+        .on('error', delayedStream.emit.bind(delayedStream, 'error'));
+      activeRequest.pipe(delayedStream);
+    }, delay);
+
+    // retry-request cancels the previous attempt when it retries.
+    Object.assign(delayedStream, {
+      cancel() {
+        clearTimeout(timeout);
+        if (activeRequest && activeRequest.cancel) {
+          activeRequest.cancel();
+        }
+      },
+    });
+
+    return delayedStream;
+  }
+
+  /**
+   * Create a stream standing in for a streaming call, which reports the
+   * response of the call to retry-request: its first message, its OK status
+   * when it sent none, or an error with a status received before any message.
+   * The metadata the server sends first does not tell whether the call
+   * failed, so it is not reported. This lets retry-request decide on the retry
+   * with `shouldRetryFn`, and so within the backoff, as it does for unary
+   * calls. An error without a status is passed on as an error.
+   *
+   * @private
+   *
+   * @param {stream} requestStream - The streaming call.
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {stream}
+   */
+  private static reportResponse_(
+    requestStream: EventEmitter,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ) {
+    let responded = false;
+    let cancelled = false;
+
+    const respond = () => {
+      responded = true;
+      reportingStream.emit(
+        'response',
+        GrpcService.decorateStatus_({code: 0}, codeMap)
+      );
+    };
+
+    const reportingStream = new Transform({
+      objectMode: true,
+      transform(message, encoding, next) {
+        if (!responded) {
+          respond();
+        }
+        next(undefined, message);
+      },
+    });
+
+    requestStream
+      .on('status', status => {
+        if (!responded && status.code === 0) {
+          respond();
+        }
+      })
+      .on('error', err => {
+        if (responded) {
+          reportingStream.emit('error', err);
+          return;
+        }
+        responded = true;
+        const response = GrpcService.decorateError_(err, codeMap);
+        if (!response) {
+          reportingStream.emit('error', err);
+          return;
+        }
+        reportingStream.emit('response', response);
+        // When it does not retry, retry-request now listens for the error. When
+        // it does, it cancelled this attempt and must not get its error.
+        setImmediate(() => {
+          if (!cancelled) {
+            reportingStream.emit('error', err);
+          }
+        });
+      });
+
+    (requestStream as Duplex).pipe(reportingStream);
+
+    Object.assign(reportingStream, {
+      cancel() {
+        cancelled = true;
+        const cancel = (requestStream as {cancel?: Function}).cancel;
+        if (cancel) {
+          cancel.call(requestStream);
+        }
+      },
+    });
+
+    return reportingStream;
+  }
+
+  /**
+   * Make retry-request only retry within the retry budget of a call, waiting
+   * as long as the server asked for with a `RetryInfo` detail.
+   *
+   * @private
+   *
+   * @param {object} retryOpts - The options given to retry-request.
+   * @param {Backoff} backoff - The backoff of the call.
+   */
+  private static applyBackoff_(retryOpts: RetryOptions, backoff: Backoff) {
+    const shouldRetryFn = retryOpts.shouldRetryFn!;
+    retryOpts.shouldRetryFn = response => {
+      return backoff.shouldRetry(
+        shouldRetryFn(response),
+        GrpcService.getRetryDelay_(response)
+      );
+    };
+  }
+
+  /**
+   * Get the delay the server asked for before a failed call is retried.
+   *
+   * @private
+   *
+   * @param {object} response - The decorated error of the call.
+   * @return {number|undefined} - The delay in milliseconds, if the server sent
+   *     one.
+   */
+  private static getRetryDelay_(response: {}): number | undefined {
+    const retryInfo = response && (response as StatusDetails).retryInfo;
+
+    if (!retryInfo || !retryInfo.retryDelay) {
+      return undefined;
+    }
+
+    const {seconds, nanos} = retryInfo.retryDelay;
+    return seconds * 1000 + Math.floor(nanos / 1e6);
+  }
+
+  /**
+   * Checks for a grpc status code and creates the error of its class, e.g. a
+   * `NotFoundError` for NOT_FOUND, with additional information. The detail
+   * messages the server sent in the `grpc-status-details-bin` trailer are
+   * decoded onto the error, e.g. as `errorInfo` and `badRequest`.
+   *
+   * @private
+   *
+   * @param {error|object} err - The grpc error.
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {GrpcServiceError|null}
+   */
+  static decorateError_(
+    err: Error,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ): GrpcServiceError | null {
+    const decorated = GrpcService.decorateGrpcResponse_({}, err, codeMap);
+
+    if (!decorated) {
+      return null;
+    }
+
+    const {code, metadata} = err as Error & {
+      code: number;
+      metadata?: grpc.Metadata;
+    };
+    const grpcError = createGrpcServiceError(decorated.message, {
+      code: decorated.code,
+      grpcCode: code,
+      metadata,
+      cause: is.error(err) ? err : undefined,
+    });
+
+    // Keep the other properties of the gRPC error, e.g. `details`.
+    return Object.assign(grpcError, decorated, getStatusDetails(metadata));
+  }
+
+  /**
+   * Checks for a grpc status code and extends the supplied object with
+   * additional information.
+   *
+   * @private
+   *
+   * @param {object} obj - The object to be extended.
+   * @param {object} response - The grpc response.
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {object|null}
+   */
+  private static decorateGrpcResponse_(
+    obj,
+    response,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ) {
+    if (response && codeMap[response.code]) {
+      const defaultResponseDetails = codeMap[response.code];
+      let message = defaultResponseDetails.message;
+
+      if (response.message) {
+        // gRPC error messages can be either stringified JSON or strings.
+        try {
+          message = JSON.parse(response.message).description;
+        } catch (e) {
+          message = response.message;
+        }
+      }
+
+      return extend(true, obj, response, {
+        code: defaultResponseDetails.code,
+        message,
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks for grpc status code and extends the status object with additional
+   * information
+   *
+   * @private
+   * @param {object} status - The grpc status.
+   * @param {object=} codeMap - The HTTP status codes and messages of the gRPC
+   *     status codes. (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {object|null}
+   */
+  private static decorateStatus_(
+    status,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ) {
+    return GrpcService.decorateGrpcResponse_({}, status, codeMap);
+  }
+
+  /**
+   * Look up the gRPC status code an HTTP status code maps to. When several
+   * gRPC status codes map to it, the lowest one is used. HTTP status codes
+   * that are not mapped give UNKNOWN.
+   *
+   * @param {number} httpCode - The HTTP status code.
+   * @param {object=} codeMap - The HTTP status codes of the gRPC status codes.
+   *     (Default: `GRPC_ERROR_CODE_TO_HTTP`)
+   * @return {number} - The gRPC status code.
+   *
+   * @example
+   * GrpcService.httpCodeToGrpcCode(404);
+   * // grpc.status.NOT_FOUND
+   */
+  static httpCodeToGrpcCode(
+    httpCode: number,
+    codeMap: GrpcErrorCodeToHttp = GRPC_ERROR_CODE_TO_HTTP
+  ): number {
+    const grpcCodes = Object.keys(codeMap)
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    for (const grpcCode of grpcCodes) {
+      if (codeMap[grpcCode].code === httpCode) {
+        return grpcCode;
+      }
+    }
+
+    return grpc.status.UNKNOWN;
+  }
+
+  /**
+   * Apply the HTTP status codes and messages configured for a service onto
+   * those of `GRPC_ERROR_CODE_TO_HTTP`.
+   *
+   * @private
+   *
+   * @param {object=} overrides - The configured codes and messages.
+   * @return {object}
+   */
+  private static mergeGrpcErrorCodeToHttp_(
+    overrides?: GrpcServiceConfig['grpcErrorCodeToHttp']
+  ): GrpcErrorCodeToHttp {
+    if (!overrides) {
+      return GRPC_ERROR_CODE_TO_HTTP;
+    }
+
+    const codeMap: GrpcErrorCodeToHttp = {};
+
+    Object.keys(GRPC_ERROR_CODE_TO_HTTP)
+      .concat(Object.keys(overrides))
+      .forEach(grpcCode => {
+        codeMap[grpcCode] = Object.assign(
+          {code: 500, message: 'Internal Server Error'},
+          GRPC_ERROR_CODE_TO_HTTP[grpcCode],
+          overrides[grpcCode]
+        );
+      });
+
+    return codeMap;
+  }
+
+  /**
+   * Function to decide whether or not a request retry could occur.
+   *
+   * @private
+   *
+   * @param {object} response - The request response.
+   * @return {boolean} shouldRetry
+   */
+  private static shouldRetryRequest_(response) {
+    return [429, 500, 502, 503].indexOf(response.code) > -1;
+  }
+
+  /**
+   * Convert an object to a struct.
+   *
+   * @private
+   *
+   * @param {object} obj - An object to convert.
+   * @param {object=} options - Configuration object.
+   * @param {boolean} options.removeCircular - Remove circular references in the
+   *     object with a placeholder string.
+   * @param {boolean} options.stringify - Stringify un-recognized types.
+   * @return {array} - The converted object.
+   *
+   * @example
+   * GrpcService.objToStruct_({
+   *   greeting: 'Hello!',
+   *   favNumber: 7,
+   *   friendIds: [
+   *     1004,
+   *     1006
+   *   ],
+   *   userDetails: {
+   *     termsSigned: true
+   *   }
+   * });
+   * // {
+   * //   fields: {
+   * //     greeting: {
+   * //       stringValue: 'Hello!'
+   * //     },
+   * //     favNumber: {
+   * //       numberValue: 7
+   * //     },
+   * //     friendIds: {
+   * //       listValue: [
+   * //         {
+   * //           numberValue: 1004
+   * //         },
+   * //         {
+   * //           numberValue: 1006
+   * //         }
+   * //       ]
+   * //     },
+   * //     userDetails: {
+   * //       fields: {
+   * //         termsSigned: {
+   * //           booleanValue: true
+   * //         }
+   * //       }
+   * //     }
+   * //   }
+   * // }
+   */
+  private static objToStruct_(obj, options) {
+    return new GrpcService.ObjectToStructConverter(options).convert(obj);
+  }
+
+  /**
+   * Condense a protobuf Struct into an object of only its values.
+   *
+   * @private
+   *
+   * @param {object} struct - A protobuf Struct message.
+   * @return {object} - The simplified object.
+   *
+   * @example
+   * GrpcService.structToObj_({
+   *   fields: {
+   *     name: {
+   *       kind: 'stringValue',
+   *       stringValue: 'Stephen'
+   *     }
+   *   }
+   * });
+   * // {
+   * //   name: 'Stephen'
+   * // }
+   */
+  private static structToObj_(struct) {
+    const convertedObject = {};
+
+    for (const prop in struct.fields) {
+      if (struct.fields.hasOwnProperty(prop)) {
+        const value = struct.fields[prop];
+        convertedObject[prop] = GrpcService.decodeValue_(value);
+      }
+    }
+
+    return convertedObject;
+  }
+
+  /**
+   * Add an interceptor to run for every call made after this point.
+   *
+   * @param {object} interceptor - The interceptor to add.
+   */
+  addGrpcInterceptor(interceptor: GrpcInterceptor) {
+    this.grpcInterceptors.push(interceptor);
+  }
+
+  /**
+   * Run the request hook of every interceptor on an outgoing call.
+   *
+   * When interceptors are registered, the metadata is copied first so that
+   * hooks can never modify the service-level metadata.
+   *
+   * @private
+   *
+   * @param {object} context - The call being made.
+   * @return {object} - The call, as modified by the interceptors.
+   */
+  private interceptRequest_(context: InterceptorContext) {
+    if (this.grpcInterceptors.length === 0) {
+      return context;
+    }
+
+    if (context.metadata === this.grpcMetadata) {
+      context.metadata = context.metadata.clone();
+    }
+
+    this.grpcInterceptors.forEach(interceptor => {
+      if (interceptor.request) {
+        interceptor.request(context);
+      }
+    });
+
+    return context;
+  }
+
+  /**
+   * Run the response hook of every interceptor on a response.
+   *
+   * @private
+   *
+   * @param {*} response - The response.
+   * @param {object} context - The call the response belongs to.
+   * @return {*} - The response, as replaced by the interceptors.
+   */
+  // tslint:disable-next-line:no-any
+  private interceptResponse_(response: any, context: InterceptorContext) {
+    return this.grpcInterceptors.reduce((response, interceptor) => {
+      if (!interceptor.response) {
+        return response;
+      }
+      const replacement = interceptor.response(response, context);
+      return is.undefined(replacement) ? response : replacement;
+    }, response);
+  }
+
+  /**
+   * Run the error hook of every interceptor on an error.
+   *
+   * @private
+   *
+   * @param {error} err - The error.
+   * @param {object} context - The call the error belongs to.
+   * @return {error} - The error, as replaced by the interceptors, or the error
+   *     an error hook threw.
+   */
+  private interceptError_(err: Error, context: InterceptorContext) {
+    try {
+      return this.grpcInterceptors.reduce((err, interceptor) => {
+        return (interceptor.error && interceptor.error(err, context)) || err;
+      }, this.toCallerError_(err));
+    } catch (e) {
+      return e as Error;
+    }
+  }
+
+  /**
+   * Make the `code` of an error the gRPC status code when the service is set
+   * up with `useGrpcStatusCodes`.
+   *
+   * @private
+   *
+   * @param {error} err - The error a call fails with.
+   * @return {error}
+   */
+  private toCallerError_<T extends Error>(err: T): T {
+    if (this.useGrpcStatusCodes && err instanceof GrpcServiceError) {
+      err.code = err.grpcCode;
+    }
+
+    return err;
+  }
+
+  /**
+   * Pipe a streaming call's messages through the response hooks of the
+   * interceptors. When no interceptor has a response hook, the source stream
+   * is returned as is.
+   *
+   * @private
+   *
+   * @param {stream} source - The stream to read messages from.
+   * @param {object} context - The call being made.
+   * @param {stream} stream - The stream returned to the user, destroyed if a
+   *     response hook throws.
+   * @return {stream} - The stream to read intercepted messages from.
+   */
+  private interceptResponseStream_(
+    source: Duplex,
+    context: InterceptorContext,
+    stream: Duplex
+  ): Duplex {
+    if (!this.grpcInterceptors.some(interceptor => !!interceptor.response)) {
+      return source;
+    }
+
+    const interceptedStream = new Transform({
+      objectMode: true,
+      transform: (chunk, encoding, next) => {
+        try {
+          next(undefined, this.interceptResponse_(chunk, context));
+        } catch (e) {
+          next(e);
+        }
+      },
+    }).on('error', err => {
+      stream.destroy(err);
+    });
+
+    return source.pipe(interceptedStream);
+  }
+
+  /**
+   * Create the stream returned for a writable or duplex streaming call.
+   *
+   * @private
+   *
+   * @param {object} protoOpts - The proto options.
+   * @return {Duplexify}
+   */
+  private createDuplexify_(protoOpts: ProtoOpts) {
+    const highWaterMark = this.getFlowControlSettings_(protoOpts).highWaterMark;
+
+    if (!is.number(highWaterMark)) {
+      // tslint:disable-next-line:no-any
+      return (duplexify as any).obj();
+    }
+
+    // `duplexify.obj` always buffers 16 messages.
+    // tslint:disable-next-line:no-any
+    return (duplexify as any)(undefined, undefined, {
+      objectMode: true,
+      highWaterMark,
+    });
+  }
+
+  /**
+   * Wrap the writable side of a call in flow control. Without limits, the call
+   * is written to directly. Message sizes are only measured when a byte limit
+   * is set, as it takes serializing every message a second time.
+   *
+   * The flow control is exposed as the `flowControl` property of the returned
+   * stream, to inspect the messages and bytes waiting to be sent.
+   *
+   * @private
+   *
+   * @param {object} protoOpts - The proto options.
+   * @param {object} service - The proto service.
+   * @param {stream} grpcStream - The streaming call.
+   * @return {stream} - The stream to write messages to.
    */
-  private static decorateGrpcResponse_(obj, response) {
-    if (response && GRPC_ERROR_CODE_TO_HTTP[response.code]) {
-      const defaultResponseDetails = GRPC_ERROR_CODE_TO_HTTP[response.code];
-      let message = defaultResponseDetails.message;
+  private createFlowControl_(
+    protoOpts: ProtoOpts,
+    // tslint:disable-next-line:no-any
+    service: any,
+    grpcStream: Duplex
+  ) {
+    const settings = this.getFlowControlSettings_(protoOpts);
+
+    if (
+      !is.number(settings.maxOutstandingMessages) &&
+      !is.number(settings.maxOutstandingBytes)
+    ) {
+      return grpcStream;
+    }
 
-      if (response.message) {
-        // gRPC error messages can be either stringified JSON or strings.
-        try {
-          message = JSON.parse(response.message).description;
-        } catch (e) {
-          message = response.message;
-        }
+    const serialize = service[protoOpts.method].requestSerialize;
+    const getSize = (message: {}) => {
+      if (Buffer.isBuffer(message)) {
+        return message.length;
+      }
+      if (!is.number(settings.maxOutstandingBytes) || !serialize) {
+        return 0;
       }
+      return serialize(message).length;
+    };
 
-      return extend(true, obj, response, {
-        code: defaultResponseDetails.code,
-        message,
-      });
-    }
+    const flowControl = new FlowControlledWritable(
+      grpcStream,
+      settings,
+      getSize
+    );
 
-    return null;
+    Object.assign(protoOpts.stream, {flowControl});
+    return flowControl;
   }
 
   /**
-   * Checks for grpc status code and extends the status object with additional
-   * information
+   * Get the flow control settings of a call. Settings in
+   * `protoOpts.flowControl` take precedence over the service's.
    *
    * @private
-   * @param {object} status - The grpc status.
-   * @return {object|null}
+   *
+   * @param {object} protoOpts - The proto options.
+   * @return {object}
    */
-  private static decorateStatus_(status) {
-    return GrpcService.decorateGrpcResponse_({}, status);
+  private getFlowControlSettings_(protoOpts: ProtoOpts): FlowControlSettings {
+    return Object.assign({}, this.flowControl, protoOpts.flowControl);
   }
 
   /**
-   * Function to decide whether or not a request retry could occur.
+   * Create the backoff for a call. Settings in `protoOpts.retryOpts` take
+   * precedence over the method's retry policy, which takes precedence over the
+   * service's backoff settings.
    *
    * @private
    *
-   * @param {object} response - The request response.
-   * @return {boolean} shouldRetry
+   * @param {object} protoOpts - The proto options.
+   * @param {object} methodSettings - The settings of the method.
+   * @return {Backoff}
    */
-  private static shouldRetryRequest_(response) {
-    return [429, 500, 502, 503].indexOf(response.code) > -1;
+  private createBackoff_(protoOpts: ProtoOpts, methodSettings: MethodSettings) {
+    return new Backoff(
+      Object.assign(
+        {},
+        this.backoffSettings,
+        methodSettings.retryOpts,
+        protoOpts.retryOpts
+      )
+    );
   }
 
   /**
-   * Convert an object to a struct.
+   * Check if a call is safe to replay. `protoOpts.idempotent` takes precedence
+   * over the options of the method in `protoServices`. Calls are idempotent
+   * unless marked otherwise.
    *
    * @private
    *
-   * @param {object} obj - An object to convert.
-   * @param {object=} options - Configuration object.
-   * @param {boolean} options.removeCircular - Remove circular references in the
-   *     object with a placeholder string.
-   * @param {boolean} options.stringify - Stringify un-recognized types.
-   * @return {array} - The converted object.
-   *
-   * @example
-   * GrpcService.objToStruct_({
-   *   greeting: 'Hello!',
-   *   favNumber: 7,
-   *   friendIds: [
-   *     1004,
-   *     1006
-   *   ],
-   *   userDetails: {
-   *     termsSigned: true
-   *   }
-   * });
-   * // {
-   * //   fields: {
-   * //     greeting: {
-   * //       stringValue: 'Hello!'
-   * //     },
-   * //     favNumber: {
-   * //       numberValue: 7
-   * //     },
-   * //     friendIds: {
-   * //       listValue: [
-   * //         {
-   * //           numberValue: 1004
-   * //         },
-   * //         {
-   * //           numberValue: 1006
-   * //         }
-   * //       ]
-   * //     },
-   * //     userDetails: {
-   * //       fields: {
-   * //         termsSigned: {
-   * //           booleanValue: true
-   * //         }
-   * //       }
-   * //     }
-   * //   }
-   * // }
+   * @param {object} protoOpts - The proto options.
+   * @return {boolean}
    */
-  private static objToStruct_(obj, options) {
-    return new GrpcService.ObjectToStructConverter(options).convert(obj);
+  private isIdempotent_(protoOpts: ProtoOpts) {
+    if (is.boolean(protoOpts.idempotent)) {
+      return protoOpts.idempotent!;
+    }
+
+    const methods = this.protoMethods[protoOpts.service];
+    const methodOptions = methods && methods[protoOpts.method];
+
+    return !methodOptions || methodOptions.idempotent !== false;
   }
 
   /**
-   * Condense a protobuf Struct into an object of only its values.
+   * Get the gRPC status codes a call is retried on. A call that is not
+   * idempotent is only retried on the codes in `NON_IDEMPOTENT_RETRY_CODES`,
+   * narrowing down the codes of the method's retry policy, if any.
    *
    * @private
    *
-   * @param {object} struct - A protobuf Struct message.
-   * @return {object} - The simplified object.
-   *
-   * @example
-   * GrpcService.structToObj_({
-   *   fields: {
-   *     name: {
-   *       kind: 'stringValue',
-   *       stringValue: 'Stephen'
-   *     }
-   *   }
-   * });
-   * // {
-   * //   name: 'Stephen'
-   * // }
+   * @param {object} protoOpts - The proto options.
+   * @param {object} methodSettings - The settings of the method.
+   * @return {number[]|undefined} - The status codes, or `undefined` to decide
+   *     on the mapped HTTP code instead.
    */
-  private static structToObj_(struct) {
-    const convertedObject = {};
+  private getRetryableCodes_(
+    protoOpts: ProtoOpts,
+    methodSettings: MethodSettings
+  ) {
+    const retryableCodes = methodSettings.retryableCodes;
 
-    for (const prop in struct.fields) {
-      if (struct.fields.hasOwnProperty(prop)) {
-        const value = struct.fields[prop];
-        convertedObject[prop] = GrpcService.decodeValue_(value);
-      }
+    if (this.isIdempotent_(protoOpts)) {
+      return retryableCodes;
     }
 
-    return convertedObject;
+    return NON_IDEMPOTENT_RETRY_CODES.filter(code => {
+      return !retryableCodes || retryableCodes.indexOf(code) > -1;
+    });
+  }
+
+  /**
+   * Get the settings that the gRPC service config sets for a method.
+   *
+   * @private
+   *
+   * @param {object} protoOpts - The proto options.
+   * @return {object} - The method settings.
+   */
+  private getMethodSettings_(protoOpts: ProtoOpts): MethodSettings {
+    if (!this.grpcServiceConfig) {
+      return {};
+    }
+    return getMethodSettings(
+      this.grpcServiceConfig,
+      protoOpts.service,
+      protoOpts.method
+    );
   }
 
   /**
@@ -977,6 +3287,54 @@ export class GrpcService extends Service {
     return replaceProjectIdToken(reqOpts, this.projectId);
   }
 
+  /**
+   * Get the metadata to send with a request. Metadata provided with the
+   * request is merged onto a copy of the service-level metadata, so the shared
+   * instance is never modified.
+   *
+   * @private
+   *
+   * @param {object} protoOpts - The proto options.
+   * @param {object=} protoOpts.metadata - Metadata for this request only.
+   * @return {Metadata} - The metadata to send.
+   */
+  private getRequestMetadata_(protoOpts: ProtoOpts) {
+    const overrides = protoOpts.metadata;
+
+    if (!overrides && !protoOpts.waitForReady) {
+      return this.grpcMetadata;
+    }
+
+    const metadata = this.grpcMetadata!.clone();
+
+    if (protoOpts.waitForReady) {
+      metadata.setOptions(
+        Object.assign({}, metadata.getOptions(), {waitForReady: true})
+      );
+    }
+
+    if (!overrides) {
+      return metadata;
+    }
+
+    const isGrpcMetadata = typeof overrides.getMap === 'function';
+    const keys = Object.keys(
+      isGrpcMetadata ? (overrides as grpc.Metadata).getMap() : overrides
+    );
+
+    keys.forEach(key => {
+      const value = isGrpcMetadata
+        ? (overrides as grpc.Metadata).get(key)
+        : (overrides as RequestMetadata)[key];
+      const values = Array.isArray(value) ? value : [value];
+
+      metadata.remove(key);
+      values.forEach(value => metadata.add(key, value));
+    });
+
+    return metadata;
+  }
+
   /**
    * To authorize requests through gRPC, we must get the raw google-auth-library
    * auth client object.
@@ -1032,7 +3390,8 @@ export class GrpcService extends Service {
   }
 
   /**
-   * Retrieves the service object used to make the grpc requests.
+   * Retrieves the service object used to make the grpc requests. When the
+   * service has a channel pool, it is picked from the pool.
    *
    * @private
    *
@@ -1040,24 +3399,263 @@ export class GrpcService extends Service {
    * @return {object} service - The proto service.
    */
   private getService_(protoOpts) {
-    const proto = this.protos[protoOpts.service];
+    const poolSettings: ChannelPoolSettings = Object.assign(
+      {},
+      this.channelPool,
+      this.protoChannelPools[protoOpts.service]
+    );
+
+    if ((poolSettings.size || 1) > 1) {
+      let pool = this.channelPools_.get(protoOpts.service);
+
+      if (!pool) {
+        pool = new ChannelPool(poolSettings, index => {
+          // Clients share a connection when their channel options are the
+          // same, so every client gets an option of its own.
+          const client = this.createService_(protoOpts.service, {
+            'common_grpc.channel_pool_index': index,
+          });
+          this.watchClient_(protoOpts.service, index, client);
+          return client;
+        });
+        this.channelPools_.set(protoOpts.service, pool);
+      }
+
+      return pool.getClient(protoOpts.channelAffinityKey);
+    }
+
     let service = this.activeServiceMap_.get(protoOpts.service);
 
     if (!service) {
-      service = new proto[protoOpts.service](
-        proto.baseUrl || this.baseUrl,
-        this.grpcCredentials,
-        Object.assign(
-          {
-            'grpc.primary_user_agent': this.userAgent,
-          },
-          GRPC_SERVICE_OPTIONS
-        )
-      );
-
+      service = this.createService_(protoOpts.service);
       this.activeServiceMap_.set(protoOpts.service, service);
+      this.watchClient_(protoOpts.service, 0, service);
     }
 
     return service;
   }
+
+  /**
+   * Create a client of a service. The channel options of the service and of
+   * the proto service are merged over the defaults, in that order.
+   *
+   * @private
+   *
+   * @param {string} serviceName - The name of the service.
+   * @param {object=} channelOptions - Channel options to add to the others.
+   * @return {object} - The client.
+   */
+  private createService_(serviceName: string, channelOptions?: {}) {
+    const proto =
+      serviceName === HEALTH_SERVICE_NAME
+        ? {[HEALTH_SERVICE_NAME]: getHealthClient()}
+        : this.protos[serviceName];
+    return new proto[serviceName](
+      proto.baseUrl || this.baseUrl,
+      this.grpcCredentials,
+      Object.assign(
+        {
+          'grpc.primary_user_agent': this.userAgent,
+        },
+        GRPC_SERVICE_OPTIONS,
+        this.channelOptions,
+        this.protoChannelOptions[serviceName],
+        channelOptions
+      )
+    );
+  }
+
+  /**
+   * Get the name of the service to check the health of.
+   *
+   * @private
+   *
+   * @param {string=} service - The name given by the caller, if any.
+   * @return {string}
+   */
+  private getHealthCheckService_(service?: string) {
+    if (typeof service === 'string') {
+      return service;
+    }
+    return this.healthCheckService || '';
+  }
+
+  /**
+   * Watch the connectivity state of a client, if there are listeners for its
+   * changes and it is not watched yet.
+   *
+   * @private
+   *
+   * @param {string} serviceName - The name of the service.
+   * @param {number} channelIndex - The index of the client in the pool.
+   * @param {object} client - The client.
+   */
+  private watchClient_(
+    serviceName: string,
+    channelIndex: number,
+    client: {getChannel?(): WatchableChannel}
+  ) {
+    if (
+      this.events_.listenerCount('connectivityStateChange') === 0 ||
+      typeof client.getChannel !== 'function'
+    ) {
+      return;
+    }
+
+    const channel = client.getChannel();
+
+    if (this.watchedChannels_.has(channel)) {
+      return;
+    }
+
+    this.watchedChannels_.add(channel);
+
+    watchConnectivityState(
+      channel,
+      (state, previousState) => {
+        if (state === 'SHUTDOWN') {
+          this.watchedChannels_.delete(channel);
+        }
+
+        const change: ConnectivityStateChange = {
+          service: serviceName,
+          channelIndex,
+          state,
+          previousState,
+        };
+        this.events_.emit('connectivityStateChange', change);
+      },
+      () => {
+        if (this.events_.listenerCount('connectivityStateChange') > 0) {
+          return true;
+        }
+
+        this.watchedChannels_.delete(channel);
+        return false;
+      }
+    );
+  }
+
+  /**
+   * Count a call as in progress until it ends, so `close` can wait for it.
+   *
+   * @private
+   *
+   * @param {AbortSignal=} signal - The signal given by the caller, if any.
+   * @return {object} - The `signal` to cancel the call with, which also aborts
+   *     once the service cancels the call, and a function to `end` the call.
+   */
+  private trackCall_(signal?: AbortSignalLike) {
+    const callSignal = new CallSignal(signal);
+
+    this.activeCalls_.add(callSignal);
+
+    return {
+      signal: callSignal,
+      end: () => {
+        this.activeCalls_.delete(callSignal);
+        this.closeRetiredClients_(callSignal);
+        if (this.activeCalls_.size === 0 && this.onCallsEnded_) {
+          this.onCallsEnded_();
+        }
+      },
+    };
+  }
+
+  /**
+   * Make calls with new credentials. The cached clients are retired, so new
+   * clients are created for the calls that follow.
+   *
+   * @private
+   *
+   * @param {ChannelCredentials} credentials - The new credentials.
+   */
+  private replaceCredentials_(credentials: {}) {
+    const clients: Array<{close(): void}> = Array.from(
+      this.activeServiceMap_.values()
+    );
+
+    this.channelPools_.forEach(pool => {
+      pool.clients.forEach(client => clients.push(client as grpc.Client));
+    });
+
+    if (clients.length > 0) {
+      this.retiredClients_.push({clients, calls: new Set(this.activeCalls_)});
+      this.closeRetiredClients_();
+    }
+
+    this.grpcCredentials = credentials;
+    this.activeServiceMap_.clear();
+    this.channelPools_.clear();
+    this.events_.emit('credentialsChange');
+  }
+
+  /**
+   * Close the retired clients that no call in progress uses anymore. A
+   * client is used until every call in progress when it was retired ended.
+   *
+   * @private
+   *
+   * @param {CallSignal=} endedCall - The call that just ended, if any.
+   */
+  private closeRetiredClients_(endedCall?: CallSignal) {
+    this.retiredClients_ = this.retiredClients_.filter(retired => {
+      if (endedCall) {
+        retired.calls.delete(endedCall);
+      }
+
+      if (retired.calls.size > 0) {
+        return true;
+      }
+
+      retired.clients.forEach(GrpcService.closeClient_);
+      return false;
+    });
+  }
+
+  /**
+   * Cancel the calls in progress.
+   *
+   * @private
+   */
+  private cancelCalls_() {
+    Array.from(this.activeCalls_).forEach(callSignal => callSignal.cancel());
+  }
+
+  /**
+   * Close the cached clients of every service.
+   *
+   * @private
+   */
+  private closeClients_() {
+    this.activeServiceMap_.forEach(GrpcService.closeClient_);
+    this.channelPools_.forEach(pool => {
+      pool.clients.forEach(client => {
+        GrpcService.closeClient_(client as grpc.Client);
+      });
+    });
+    this.retiredClients_.forEach(retired => {
+      retired.clients.forEach(GrpcService.closeClient_);
+    });
+    this.activeServiceMap_.clear();
+    this.channelPools_.clear();
+    this.retiredClients_ = [];
+  }
+
+  /**
+   * Close a client. Clients are closed once their calls ended, so a client
+   * that fails to close is left as it is rather than failing the caller of
+   * the last call, or the other clients.
+   *
+   * @private
+   *
+   * @param {object} client - The client.
+   */
+  private static closeClient_(client: {close(): void}) {
+    try {
+      client.close();
+    } catch (e) {
+      // The channel is released once the client is no longer referenced.
+    }
+  }
 }
@@ -0,0 +1,206 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import * as sn from 'sinon';
+
+import {Backoff, DEFAULT_BACKOFF_SETTINGS} from '../src/backoff';
+
+const sinon = sn.createSandbox();
+
+describe('Backoff', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('instantiation', () => {
+    it('should use the default settings', () => {
+      const backoff = new Backoff();
+      assert.deepStrictEqual(backoff.settings, DEFAULT_BACKOFF_SETTINGS);
+      assert.notStrictEqual(backoff.settings, DEFAULT_BACKOFF_SETTINGS);
+    });
+
+    it('should override the defaults with the settings', () => {
+      const backoff = new Backoff({
+        initialRetryDelayMillis: 10,
+        jitter: 'none',
+        maxRetryDelayMillis: undefined,
+      });
+
+      assert.strictEqual(backoff.settings.initialRetryDelayMillis, 10);
+      assert.strictEqual(backoff.settings.jitter, 'none');
+      assert.strictEqual(
+        backoff.settings.maxRetryDelayMillis,
+        DEFAULT_BACKOFF_SETTINGS.maxRetryDelayMillis
+      );
+    });
+
+    it('should ignore unknown settings', () => {
+      const backoff = new Backoff(({retries: 3} as {}) as Backoff['settings']);
+      assert.strictEqual('retries' in backoff.settings, false);
+    });
+  });
+
+  describe('nextDelay', () => {
+    const SETTINGS = {
+      initialRetryDelayMillis: 100,
+      retryDelayMultiplier: 2,
+      maxRetryDelayMillis: 500,
+    };
+
+    it('should grow the delay exponentially up to the maximum', () => {
+      const backoff = new Backoff(Object.assign({jitter: 'none'}, SETTINGS));
+      const delays = [1, 2, 3, 4, 5].map(() => backoff.nextDelay());
+      assert.deepStrictEqual(delays, [100, 200, 400, 500, 500]);
+    });
+
+    it('should add up to a second of jitter', () => {
+      sinon.stub(Math, 'random').returns(0.5);
+      const backoff = new Backoff(
+        Object.assign({jitter: 'additive'}, SETTINGS)
+      );
+      const delays = [1, 2, 3].map(() => backoff.nextDelay());
+      assert.deepStrictEqual(delays, [500, 500, 500]);
+    });
+
+    it('should keep the delays of retry-request by default', () => {
+      sinon.stub(Math, 'random').returns(0.5);
+      const backoff = new Backoff();
+      const delays = [1, 2, 3, 4, 5, 6].map(() => backoff.nextDelay());
+      assert.deepStrictEqual(delays, [2500, 4500, 8500, 16500, 32500, 64000]);
+    });
+
+    it('should apply full jitter', () => {
+      sinon.stub(Math, 'random').returns(0.5);
+      const backoff = new Backoff(Object.assign({jitter: 'full'}, SETTINGS));
+      const delays = [1, 2, 3].map(() => backoff.nextDelay());
+      assert.deepStrictEqual(delays, [50, 100, 200]);
+    });
+
+    it('should apply equal jitter', () => {
+      sinon.stub(Math, 'random').returns(0.5);
+      const backoff = new Backoff(Object.assign({jitter: 'equal'}, SETTINGS));
+      const delays = [1, 2, 3].map(() => backoff.nextDelay());
+      assert.deepStrictEqual(delays, [75, 150, 300]);
+    });
+
+    it('should apply decorrelated jitter', () => {
+      sinon.stub(Math, 'random').returns(1);
+      const backoff = new Backoff(
+        Object.assign({jitter: 'decorrelated'}, SETTINGS)
+      );
+      const delays = [1, 2, 3].map(() => backoff.nextDelay());
+      assert.deepStrictEqual(delays, [300, 500, 500]);
+    });
+  });
+
+  describe('isWithinBudget', () => {
+    it('should check the delay against the retry budget', () => {
+      const clock = sinon.useFakeTimers();
+      const backoff = new Backoff({maxRetryDurationMillis: 1000});
+
+      clock.tick(400);
+      assert.strictEqual(backoff.isWithinBudget(600), true);
+      assert.strictEqual(backoff.isWithinBudget(601), false);
+    });
+  });
+
+  describe('isPastDeadline', () => {
+    it('should check the delay against the deadline', () => {
+      const clock = sinon.useFakeTimers();
+      const backoff = new Backoff();
+
+      assert.strictEqual(backoff.isPastDeadline(1000000), false);
+
+      backoff.deadline = 1000;
+      clock.tick(400);
+      assert.strictEqual(backoff.isPastDeadline(599), false);
+      assert.strictEqual(backoff.isPastDeadline(600), true);
+    });
+  });
+
+  describe('shouldRetry', () => {
+    it('should not retry when the failure is not retryable', () => {
+      const backoff = new Backoff();
+      assert.strictEqual(backoff.shouldRetry(false), false);
+      assert.strictEqual(backoff.retryCount, 0);
+    });
+
+    it('should reserve the delay before the retry', () => {
+      const backoff = new Backoff({jitter: 'none'});
+      assert.strictEqual(backoff.shouldRetry(true), true);
+      assert.strictEqual(backoff.pendingDelay, 2000);
+    });
+
+    it('should not retry past the retry budget', () => {
+      const backoff = new Backoff({
+        jitter: 'none',
+        maxRetryDurationMillis: 1999,
+      });
+      assert.strictEqual(backoff.shouldRetry(true), false);
+      assert.strictEqual(backoff.pendingDelay, undefined);
+    });
+
+    it('should not retry past the deadline', () => {
+      const backoff = new Backoff({jitter: 'none'});
+      backoff.deadline = Date.now() + 1999;
+      assert.strictEqual(backoff.shouldRetry(true), false);
+      assert.strictEqual(backoff.pendingDelay, undefined);
+      assert.strictEqual(backoff.deadlineExceeded, true);
+    });
+
+    it('should reserve the delay the server asked for', () => {
+      const backoff = new Backoff({jitter: 'none'});
+      assert.strictEqual(backoff.shouldRetry(true, 5000), true);
+      assert.strictEqual(backoff.pendingDelay, 5000);
+      assert.strictEqual(backoff.retryCount, 1);
+    });
+
+    it('should not retry when the server delay exceeds the budget', () => {
+      const backoff = new Backoff({maxRetryDurationMillis: 4999});
+      assert.strictEqual(backoff.shouldRetry(true, 5000), false);
+      assert.strictEqual(backoff.pendingDelay, undefined);
+    });
+
+    it('should not retry when the server delay passes the deadline', () => {
+      const backoff = new Backoff();
+      backoff.deadline = Date.now() + 4999;
+      assert.strictEqual(backoff.shouldRetry(true, 5000), false);
+      assert.strictEqual(backoff.deadlineExceeded, true);
+    });
+  });
+
+  describe('takeDelay', () => {
+    it('should not delay the first attempt', () => {
+      const backoff = new Backoff();
+      assert.strictEqual(backoff.takeDelay(), 0);
+    });
+
+    it('should use the reserved delay', () => {
+      const backoff = new Backoff({jitter: 'none'});
+      backoff.takeDelay();
+      backoff.shouldRetry(true);
+      assert.strictEqual(backoff.takeDelay(), 2000);
+      assert.strictEqual(backoff.pendingDelay, undefined);
+    });
+
+    it('should calculate a delay when none was reserved', () => {
+      const backoff = new Backoff({jitter: 'none'});
+      backoff.takeDelay();
+      assert.strictEqual(backoff.takeDelay(), 2000);
+      assert.strictEqual(backoff.takeDelay(), 4000);
+    });
+  });
+});
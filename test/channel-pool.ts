@@ -0,0 +1,128 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach} from 'mocha';
+import {EventEmitter} from 'events';
+
+import {ChannelPool} from '../src/channel-pool';
+
+class FakeClient {
+  calls: EventEmitter[] = [];
+
+  constructor(public index: number) {}
+
+  close() {
+    return this.index;
+  }
+}
+
+// The methods of a service have a path, like those of grpc-js clients.
+Object.assign(FakeClient.prototype, {
+  method: Object.assign(
+    function(this: FakeClient) {
+      const call = new EventEmitter();
+      this.calls.push(call);
+      return call;
+    },
+    {path: '/Service/Method', requestSerialize: () => Buffer.from('')}
+  ),
+});
+
+// tslint:disable-next-line:no-any
+type Client = FakeClient & {method: any};
+
+describe('ChannelPool', () => {
+  let created: number[];
+
+  const createClient = (index: number) => {
+    created.push(index);
+    return new FakeClient(index) as Client;
+  };
+
+  beforeEach(() => {
+    created = [];
+  });
+
+  it('should default to one client picked round robin', () => {
+    const pool = new ChannelPool({}, createClient);
+    assert.strictEqual(pool.size, 1);
+    assert.strictEqual(pool.selection, 'roundRobin');
+  });
+
+  it('should create clients once they are picked', () => {
+    const pool = new ChannelPool({size: 3}, createClient);
+    assert.deepStrictEqual(created, []);
+
+    pool.getClient();
+    assert.deepStrictEqual(created, [0]);
+  });
+
+  it('should pick the clients in turn', () => {
+    const pool = new ChannelPool({size: 2}, createClient);
+    const indexes = [1, 2, 3].map(() => pool.getClient().index);
+    assert.deepStrictEqual(indexes, [0, 1, 0]);
+    assert.deepStrictEqual(created, [0, 1]);
+  });
+
+  it('should pick the client with the fewest calls', () => {
+    const pool = new ChannelPool(
+      {size: 2, selection: 'leastLoaded'},
+      createClient
+    );
+
+    const client = pool.getClient();
+    const call = client.method();
+    assert.strictEqual(pool.getClient().index, 1);
+    assert.deepStrictEqual(pool.load, [1, 0]);
+
+    call.emit('status', {code: 0});
+    assert.strictEqual(pool.getClient().index, 0);
+  });
+
+  it('should count a call once when it ends', () => {
+    const pool = new ChannelPool({size: 2}, createClient);
+    const call = pool.getClient().method();
+
+    call.emit('error', new Error('err.'));
+    call.emit('status', {code: 2});
+    assert.deepStrictEqual(pool.load, [0, 0]);
+  });
+
+  it('should keep the properties of the methods', () => {
+    const pool = new ChannelPool({size: 2}, createClient);
+    const client = pool.getClient();
+
+    assert.strictEqual(client.method.path, '/Service/Method');
+    assert.strictEqual(typeof client.method.requestSerialize, 'function');
+    assert.strictEqual(client.close(), 0);
+  });
+
+  it('should make calls of an affinity key with the same client', () => {
+    const pool = new ChannelPool({size: 3}, createClient);
+
+    const index = pool.getClient('key').index;
+    pool.getClient();
+    assert.strictEqual(pool.getClient('key').index, index);
+    assert.notStrictEqual(pool.getClient('other').index, index);
+  });
+
+  it('should remove an affinity key', () => {
+    const pool = new ChannelPool({size: 2}, createClient);
+
+    pool.getClient('key');
+    pool.removeAffinity('key');
+    assert.strictEqual(pool.getClient('key').index, 1);
+  });
+});
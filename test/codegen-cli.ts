@@ -0,0 +1,118 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach} from 'mocha';
+import * as path from 'path';
+import * as proxyquire from 'proxyquire';
+
+import {CodegenConfig} from '../src/codegen';
+import {CliIo} from '../src/codegen-cli';
+
+describe('codegen-cli', () => {
+  let main: typeof import('../src/codegen-cli').main;
+  let generatedConfig: CodegenConfig | null;
+  let generateError: Error | null;
+  let io: CliIo;
+  let output: {[stream: string]: string};
+
+  const CONFIG = {
+    protosDir: 'protos',
+    protoServices: {
+      Widgets: {
+        path: 'widgets.proto',
+        service: 'example',
+        baseUrl: 'example.googleapis.com',
+      },
+    },
+  };
+
+  before(() => {
+    main = proxyquire('../src/codegen-cli', {
+      './codegen': {
+        generateClientTypes: (config: CodegenConfig) => {
+          generatedConfig = config;
+          if (generateError) {
+            throw generateError;
+          }
+          return 'code';
+        },
+      },
+    }).main;
+  });
+
+  beforeEach(() => {
+    generatedConfig = null;
+    generateError = null;
+    output = {stdout: '', stderr: ''};
+    io = {
+      readFile: () => JSON.stringify(CONFIG),
+      writeFile: (file, data) => {
+        output[file] = data;
+      },
+      stdout: data => {
+        output.stdout += data;
+      },
+      stderr: data => {
+        output.stderr += data;
+      },
+    };
+  });
+
+  const run = (args: string[]) => main(args, io);
+
+  it('should print the usage without a config file', () => {
+    assert.strictEqual(run([]), 1);
+    assert(output.stderr.startsWith('Usage: common-grpc-codegen'));
+  });
+
+  it('should print the usage when an option has no value', () => {
+    assert.strictEqual(run(['config.json', '--out']), 1);
+    assert(output.stderr.startsWith('Usage: common-grpc-codegen'));
+  });
+
+  it('should resolve the protos directory from the config file', () => {
+    assert.strictEqual(run(['dir/config.json']), 0);
+    assert.strictEqual(generatedConfig!.protosDir, path.resolve('dir/protos'));
+    assert.deepStrictEqual(
+      generatedConfig!.protoServices,
+      CONFIG.protoServices
+    );
+  });
+
+  it('should pass the import path', () => {
+    run(['config.json', '--import', '../src']);
+    assert.strictEqual(generatedConfig!.importPath, '../src');
+  });
+
+  it('should write the code to stdout', () => {
+    run(['config.json']);
+    assert.strictEqual(output.stdout, 'code');
+  });
+
+  it('should write the code to the output file', () => {
+    run(['config.json', '--out', 'client.ts']);
+    assert.strictEqual(output['client.ts'], 'code');
+    assert.strictEqual(output.stdout, '');
+  });
+
+  it('should report errors', () => {
+    generateError = new Error('no such file');
+    assert.strictEqual(run(['config.json']), 1);
+    assert.strictEqual(
+      output.stderr,
+      'Could not generate client types: no such file\n'
+    );
+  });
+});
@@ -0,0 +1,279 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import {describe, it} from 'mocha';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import {generateClientTypes, loadProtoRoot} from '../src/codegen';
+
+const COMMON_PROTO = `
+syntax = "proto3";
+package google.example.v1;
+
+message Status {
+  int32 code = 1;
+}
+`;
+
+const WIDGETS_PROTO = `
+syntax = "proto3";
+package google.example.v1;
+
+import "google/example/v1/common.proto";
+
+service Widgets {
+  rpc GetWidget(GetWidgetRequest) returns (Widget);
+  rpc ListWidgets(GetWidgetRequest) returns (stream Widget);
+  rpc UploadWidgets(stream Widget) returns (Status);
+  rpc SyncWidgets(stream Widget) returns (stream Widget);
+}
+
+message GetWidgetRequest {
+  string widget_name = 1;
+}
+
+message Widget {
+  enum Color {
+    COLOR_UNSPECIFIED = 0;
+    RED = 1;
+  }
+
+  message Part {
+    int64 size = 1;
+  }
+
+  string name = 1;
+  repeated Part parts = 2;
+  map<string, bool> labels = 3;
+  Color color = 4;
+  bytes data = 5;
+  oneof shape {
+    double radius = 6;
+    float width = 7;
+  }
+}
+`;
+
+describe('codegen', () => {
+  let protosDir: string;
+
+  before(() => {
+    protosDir = fs.mkdtempSync(path.join(os.tmpdir(), 'common-grpc-codegen-'));
+    const dir = path.join(protosDir, 'google/example/v1');
+    fs.mkdirSync(path.join(protosDir, 'google'));
+    fs.mkdirSync(path.join(protosDir, 'google/example'));
+    fs.mkdirSync(dir);
+    fs.writeFileSync(path.join(dir, 'common.proto'), COMMON_PROTO);
+    fs.writeFileSync(path.join(dir, 'widgets.proto'), WIDGETS_PROTO);
+  });
+
+  after(() => {
+    const dir = path.join(protosDir, 'google/example/v1');
+    fs.unlinkSync(path.join(dir, 'common.proto'));
+    fs.unlinkSync(path.join(dir, 'widgets.proto'));
+    fs.rmdirSync(dir);
+    fs.rmdirSync(path.join(protosDir, 'google/example'));
+    fs.rmdirSync(path.join(protosDir, 'google'));
+    fs.rmdirSync(protosDir);
+  });
+
+  describe('loadProtoRoot', () => {
+    it('should resolve imports from the protos directory', () => {
+      const root = loadProtoRoot('google/example/v1/widgets.proto', protosDir);
+      assert(root.lookupType('google.example.v1.Status'));
+      assert(root.lookupService('google.example.v1.Widgets'));
+    });
+  });
+
+  describe('generateClientTypes', () => {
+    let code: string;
+
+    before(() => {
+      code = generateClientTypes({
+        protosDir,
+        protoServices: {
+          Widgets: {
+            path: 'google/example/v1/widgets.proto',
+            service: 'example.v1',
+            baseUrl: 'example.googleapis.com',
+          },
+        },
+      });
+    });
+
+    it('should import from the package by default', () => {
+      assert(
+        code.includes(
+          "import {ProtoOpts, Service} from '@google-cloud/common-grpc';"
+        )
+      );
+    });
+
+    it('should import from the import path', () => {
+      const code = generateClientTypes({
+        protosDir,
+        protoServices: {
+          Widgets: {
+            path: 'google/example/v1/widgets.proto',
+            service: 'example.v1',
+            baseUrl: 'example.googleapis.com',
+          },
+        },
+        importPath: '../src',
+      });
+      assert(code.includes("import {ProtoOpts, Service} from '../src';"));
+    });
+
+    it('should generate message interfaces', () => {
+      assert(
+        code.includes(
+          [
+            '/** The `google.example.v1.Widget` message. */',
+            'export interface Widget {',
+            '  name?: string;',
+            '  parts?: Widget_Part[];',
+            '  labels?: {[key: string]: boolean};',
+            '  color?: Widget_Color;',
+            '  data?: string;',
+            '  radius?: number;',
+            '  width?: number;',
+            "  shape?: 'radius' | 'width';",
+            '}',
+          ].join('\n')
+        )
+      );
+    });
+
+    it('should use camelCase field names', () => {
+      assert(code.includes('  widgetName?: string;'));
+    });
+
+    it('should decode 64-bit integers as strings', () => {
+      assert(
+        code.includes(
+          ['export interface Widget_Part {', '  size?: string;', '}'].join('\n')
+        )
+      );
+    });
+
+    it('should generate enum types', () => {
+      assert(
+        code.includes("export type Widget_Color = 'COLOR_UNSPECIFIED' | 'RED';")
+      );
+    });
+
+    it('should include imported messages', () => {
+      assert(code.includes('export interface Status {'));
+    });
+
+    it('should generate typed unary methods', () => {
+      assert(
+        code.includes(
+          [
+            '  getWidget(',
+            '    request: GetWidgetRequest,',
+            '    options?: CallOptions',
+            '  ): Promise<Widget> {',
+            '    return this.grpcService.call<GetWidgetRequest, Widget>(',
+            "      Object.assign({}, options, {service: 'Widgets', method: 'getWidget'}),",
+            '      request',
+            '    );',
+            '  }',
+          ].join('\n')
+        )
+      );
+    });
+
+    it('should generate server streaming methods', () => {
+      assert(code.includes('  listWidgets(\n    request: GetWidgetRequest,'));
+      assert(code.includes('    return this.grpcService.requestStream('));
+    });
+
+    it('should stream the messages of server streaming methods', () => {
+      const {outputText} = ts.transpileModule(code, {
+        compilerOptions: {module: ts.ModuleKind.CommonJS},
+      });
+      const generated: {[name: string]: Function} = {};
+      new Function('exports', 'require', outputText)(generated, () => ({}));
+
+      let reqOpts;
+      const grpcService = {
+        requestStream(protoOpts, reqOpts_) {
+          reqOpts = reqOpts_;
+        },
+      };
+      const request = {widgetName: 'widget'};
+      // tslint:disable-next-line:variable-name
+      const WidgetsClient = generated.WidgetsClient as new (grpcService: {}) => {
+        listWidgets(request: {}): void;
+      };
+
+      new WidgetsClient(grpcService).listWidgets(request);
+
+      assert.deepStrictEqual(reqOpts, {objectMode: true, widgetName: 'widget'});
+      assert.deepStrictEqual(request, {widgetName: 'widget'});
+    });
+
+    it('should generate client streaming methods', () => {
+      assert(code.includes('  uploadWidgets(options?: CallOptions): Duplex {'));
+      assert(code.includes('this.grpcService.requestWritableStream('));
+    });
+
+    it('should generate bidirectional streaming methods', () => {
+      assert(code.includes('  syncWidgets(options?: CallOptions): Duplex {'));
+      assert(code.includes('this.grpcService.requestDuplexStream('));
+    });
+
+    it('should generate a client per service', () => {
+      assert(code.includes('export class WidgetsClient {'));
+    });
+
+    it('should qualify the names of colliding types', () => {
+      const dir = path.join(protosDir, 'google/example/v1');
+      fs.writeFileSync(
+        path.join(dir, 'other.proto'),
+        `
+        syntax = "proto3";
+        package google.other.v1;
+        import "google/example/v1/common.proto";
+        service Other {
+          rpc Check(Status) returns (google.example.v1.Status);
+        }
+        message Status {}
+        `
+      );
+
+      try {
+        const code = generateClientTypes({
+          protosDir,
+          protoServices: {
+            Other: {
+              path: 'google/example/v1/other.proto',
+              service: 'other.v1',
+              baseUrl: 'other.googleapis.com',
+            },
+          },
+        });
+        assert(code.includes('export interface GoogleOtherV1Status {'));
+        assert(code.includes('export interface GoogleExampleV1Status {'));
+      } finally {
+        fs.unlinkSync(path.join(dir, 'other.proto'));
+      }
+    });
+  });
+});
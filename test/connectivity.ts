@@ -0,0 +1,160 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach} from 'mocha';
+import * as grpc from '@grpc/grpc-js';
+
+import {
+  getConnectivityStateName,
+  watchConnectivityState,
+} from '../src/connectivity';
+
+interface Watcher {
+  currentState: number;
+  deadline: number;
+  callback: (error?: Error) => void;
+}
+
+/**
+ * A channel whose state only changes when told to.
+ */
+class FakeChannel {
+  state: number = grpc.connectivityState.IDLE;
+  watchers: Watcher[] = [];
+
+  getConnectivityState() {
+    return this.state;
+  }
+
+  watchConnectivityState(
+    currentState: number,
+    deadline: number,
+    callback: (error?: Error) => void
+  ) {
+    this.watchers.push({currentState, deadline, callback});
+  }
+
+  setState(state: number) {
+    const watchers = this.watchers;
+    this.state = state;
+    this.watchers = [];
+    watchers.forEach(watcher => watcher.callback());
+  }
+}
+
+describe('connectivity', () => {
+  describe('getConnectivityStateName', () => {
+    it('should name the state', () => {
+      const {IDLE, READY, TRANSIENT_FAILURE} = grpc.connectivityState;
+
+      assert.strictEqual(getConnectivityStateName(IDLE), 'IDLE');
+      assert.strictEqual(getConnectivityStateName(READY), 'READY');
+      assert.strictEqual(
+        getConnectivityStateName(TRANSIENT_FAILURE),
+        'TRANSIENT_FAILURE'
+      );
+    });
+  });
+
+  describe('watchConnectivityState', () => {
+    let channel: FakeChannel;
+    let changes: string[][];
+
+    beforeEach(() => {
+      channel = new FakeChannel();
+      changes = [];
+    });
+
+    function watch(isWatching = () => true) {
+      watchConnectivityState(
+        channel,
+        (state, previousState) => changes.push([state, previousState]),
+        isWatching
+      );
+    }
+
+    it('should report every change', () => {
+      watch();
+      channel.setState(grpc.connectivityState.CONNECTING);
+      channel.setState(grpc.connectivityState.READY);
+
+      assert.deepStrictEqual(changes, [
+        ['CONNECTING', 'IDLE'],
+        ['READY', 'CONNECTING'],
+      ]);
+    });
+
+    it('should watch from the current state', () => {
+      channel.state = grpc.connectivityState.READY;
+      watch();
+
+      assert.strictEqual(
+        channel.watchers[0].currentState,
+        grpc.connectivityState.READY
+      );
+      assert(channel.watchers[0].deadline > Date.now());
+      assert(channel.watchers[0].deadline <= Date.now() + 1000);
+    });
+
+    it('should stop once the channel shuts down', () => {
+      watch();
+      channel.setState(grpc.connectivityState.SHUTDOWN);
+
+      assert.deepStrictEqual(changes, [['SHUTDOWN', 'IDLE']]);
+      assert.strictEqual(channel.watchers.length, 0);
+    });
+
+    it('should stop once it is no longer watching', () => {
+      watch(() => false);
+      channel.setState(grpc.connectivityState.CONNECTING);
+
+      assert.deepStrictEqual(changes, []);
+      assert.strictEqual(channel.watchers.length, 0);
+    });
+
+    it('should only handle a change once', () => {
+      watch();
+      const watcher = channel.watchers[0];
+      channel.setState(grpc.connectivityState.CONNECTING);
+      watcher.callback();
+
+      assert.strictEqual(changes.length, 1);
+      assert.strictEqual(channel.watchers.length, 1);
+    });
+
+    it('should watch again once the deadline passed', () => {
+      watch();
+      channel.watchers.shift()!.callback(new Error('Deadline passed.'));
+
+      assert.deepStrictEqual(changes, []);
+      assert.strictEqual(channel.watchers.length, 1);
+      assert.strictEqual(
+        channel.watchers[0].currentState,
+        grpc.connectivityState.IDLE
+      );
+    });
+
+    it('should stop at the deadline once it is no longer watching', () => {
+      let watching = true;
+
+      watch(() => watching);
+      watching = false;
+      channel.watchers.shift()!.callback(new Error('Deadline passed.'));
+
+      assert.deepStrictEqual(changes, []);
+      assert.strictEqual(channel.watchers.length, 0);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import * as grpc from '@grpc/grpc-js';
+import {describe, it} from 'mocha';
+import * as protobuf from 'protobufjs';
+
+import {
+  decodeStatusDetails,
+  getStatusDetails,
+  STATUS_DETAILS_KEY,
+} from '../src/error-details';
+
+const root = protobuf.parse(`
+syntax = "proto3";
+package google.rpc;
+
+message Status {
+  int32 code = 1;
+  string message = 2;
+  repeated Any details = 3;
+}
+
+message Any {
+  string type_url = 1;
+  bytes value = 2;
+}
+
+message Duration {
+  int64 seconds = 1;
+  int32 nanos = 2;
+}
+
+message RetryInfo {
+  Duration retry_delay = 1;
+}
+
+message ErrorInfo {
+  string reason = 1;
+  string domain = 2;
+  map<string, string> metadata = 3;
+}
+
+message BadRequest {
+  message FieldViolation {
+    string field = 1;
+    string description = 2;
+  }
+  repeated FieldViolation field_violations = 1;
+}
+
+message LocalizedMessage {
+  string locale = 1;
+  string message = 2;
+}
+`).root;
+
+/**
+ * Encode a `google.rpc.Status` with the given detail messages.
+ */
+function encodeStatus(details: Array<[string, {}]>) {
+  const status = root.lookupType('google.rpc.Status');
+  return Buffer.from(
+    status
+      .encode({
+        code: 3,
+        message: 'Invalid widget.',
+        details: details.map(([typeName, message]) => {
+          const type = root.lookupType(typeName);
+          return {
+            typeUrl: `type.googleapis.com/${typeName}`,
+            value: type.encode(type.fromObject(message)).finish(),
+          };
+        }),
+      })
+      .finish()
+  );
+}
+
+describe('error-details', () => {
+  describe('decodeStatusDetails', () => {
+    it('should decode the detail messages', () => {
+      const details = decodeStatusDetails(
+        encodeStatus([
+          [
+            'google.rpc.ErrorInfo',
+            {
+              reason: 'WIDGET_LOCKED',
+              domain: 'example.com',
+              metadata: {a: 'b'},
+            },
+          ],
+          [
+            'google.rpc.BadRequest',
+            {fieldViolations: [{field: 'name', description: 'Too long.'}]},
+          ],
+          ['google.rpc.LocalizedMessage', {locale: 'en-US', message: 'Hi.'}],
+        ])
+      );
+
+      assert.deepStrictEqual(details, {
+        errorInfo: {
+          reason: 'WIDGET_LOCKED',
+          domain: 'example.com',
+          metadata: {a: 'b'},
+        },
+        badRequest: {
+          fieldViolations: [{field: 'name', description: 'Too long.'}],
+        },
+        localizedMessage: {locale: 'en-US', message: 'Hi.'},
+      });
+    });
+
+    it('should decode durations as numbers', () => {
+      const details = decodeStatusDetails(
+        encodeStatus([
+          ['google.rpc.RetryInfo', {retryDelay: {seconds: 2, nanos: 500}}],
+        ])
+      );
+
+      assert.deepStrictEqual(details.retryInfo, {
+        retryDelay: {seconds: 2, nanos: 500},
+      });
+    });
+
+    it('should fill in default values', () => {
+      const details = decodeStatusDetails(
+        encodeStatus([['google.rpc.BadRequest', {}]])
+      );
+
+      assert.deepStrictEqual(details.badRequest, {fieldViolations: []});
+    });
+
+    it('should skip messages of unknown types', () => {
+      const details = decodeStatusDetails(
+        encodeStatus([['google.rpc.Duration', {seconds: 1}]])
+      );
+
+      assert.deepStrictEqual(details, {});
+    });
+
+    it('should keep the first message of each type', () => {
+      const details = decodeStatusDetails(
+        encodeStatus([
+          ['google.rpc.LocalizedMessage', {locale: 'en-US', message: 'Hi.'}],
+          ['google.rpc.LocalizedMessage', {locale: 'fr-FR', message: 'Salut.'}],
+        ])
+      );
+
+      assert.strictEqual(details.localizedMessage!.locale, 'en-US');
+    });
+  });
+
+  describe('getStatusDetails', () => {
+    it('should decode the status details trailer', () => {
+      const metadata = new grpc.Metadata();
+      metadata.set(
+        STATUS_DETAILS_KEY,
+        encodeStatus([['google.rpc.ErrorInfo', {reason: 'WIDGET_LOCKED'}]])
+      );
+
+      const details = getStatusDetails(metadata);
+      assert.strictEqual(details!.errorInfo!.reason, 'WIDGET_LOCKED');
+    });
+
+    it('should return null without metadata', () => {
+      assert.strictEqual(getStatusDetails(), null);
+    });
+
+    it('should return null without the trailer', () => {
+      assert.strictEqual(getStatusDetails(new grpc.Metadata()), null);
+    });
+
+    it('should return null if the trailer cannot be decoded', () => {
+      const metadata = new grpc.Metadata();
+      metadata.set(STATUS_DETAILS_KEY, Buffer.from([0xff, 0xff]));
+
+      assert.strictEqual(getStatusDetails(metadata), null);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import * as grpc from '@grpc/grpc-js';
+import {describe, it} from 'mocha';
+
+import {
+  AbortedError,
+  AlreadyExistsError,
+  createGrpcServiceError,
+  GrpcServiceError,
+  UnauthenticatedError,
+} from '../src/errors';
+
+describe('errors', () => {
+  describe('GrpcServiceError', () => {
+    it('should carry the status of the call', () => {
+      const metadata = new grpc.Metadata();
+      const cause = new Error('Conflict.');
+      const error = new GrpcServiceError('Conflict.', {
+        code: 409,
+        grpcCode: grpc.status.ABORTED,
+        metadata,
+        cause,
+      });
+
+      assert(error instanceof Error);
+      assert.strictEqual(error.name, 'GrpcServiceError');
+      assert.strictEqual(error.message, 'Conflict.');
+      assert.strictEqual(error.code, 409);
+      assert.strictEqual(error.httpCode, 409);
+      assert.strictEqual(error.grpcCode, 10);
+      assert.strictEqual(error.grpcCodeName, 'ABORTED');
+      assert.strictEqual(error.metadata, metadata);
+      assert.strictEqual(error.cause, cause);
+    });
+
+    it('should name unknown codes UNKNOWN', () => {
+      const error = new GrpcServiceError('Hello.', {code: 500, grpcCode: 99});
+      assert.strictEqual(error.grpcCodeName, 'UNKNOWN');
+    });
+  });
+
+  describe('createGrpcServiceError', () => {
+    it('should create the error class of the gRPC code', () => {
+      const aborted = createGrpcServiceError('Conflict.', {
+        code: 409,
+        grpcCode: grpc.status.ABORTED,
+      });
+      const alreadyExists = createGrpcServiceError('Conflict.', {
+        code: 409,
+        grpcCode: grpc.status.ALREADY_EXISTS,
+      });
+
+      assert(aborted instanceof AbortedError);
+      assert(aborted instanceof GrpcServiceError);
+      assert.strictEqual(aborted.name, 'AbortedError');
+      assert(alreadyExists instanceof AlreadyExistsError);
+      assert(!(alreadyExists instanceof AbortedError));
+    });
+
+    it('should have a class for every error code', () => {
+      const error = createGrpcServiceError('Unauthorized', {
+        code: 401,
+        grpcCode: grpc.status.UNAUTHENTICATED,
+      });
+      assert(error instanceof UnauthenticatedError);
+
+      for (let grpcCode = 1; grpcCode <= 16; grpcCode++) {
+        const error = createGrpcServiceError('', {code: 500, grpcCode});
+        assert.notStrictEqual(error.constructor, GrpcServiceError);
+      }
+    });
+
+    it('should fall back to GrpcServiceError for unknown codes', () => {
+      const error = createGrpcServiceError('', {code: 500, grpcCode: 99});
+      assert.strictEqual(error.constructor, GrpcServiceError);
+    });
+  });
+});
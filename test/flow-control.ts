@@ -0,0 +1,198 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach} from 'mocha';
+import {EventEmitter} from 'events';
+import {Writable} from 'stream';
+
+import {FlowControlledWritable} from '../src/flow-control';
+
+/**
+ * A call that only reports a message sent when told to.
+ */
+class FakeCall extends EventEmitter {
+  messages: Array<{}> = [];
+  callbacks: Array<() => void> = [];
+  needDrain = false;
+
+  constructor(private highWaterMark = 16) {
+    super();
+  }
+
+  write(message: {}, callback: () => void) {
+    this.messages.push(message);
+    this.callbacks.push(callback);
+    this.needDrain = this.callbacks.length >= this.highWaterMark;
+    return !this.needDrain;
+  }
+
+  end() {
+    this.emit('finish');
+  }
+
+  send() {
+    this.callbacks.shift()!();
+    if (this.needDrain && this.callbacks.length === 0) {
+      this.needDrain = false;
+      this.emit('drain');
+    }
+  }
+}
+
+describe('FlowControlledWritable', () => {
+  let call: FakeCall;
+
+  beforeEach(() => {
+    call = new FakeCall();
+  });
+
+  it('should write messages to the call', done => {
+    const writable = new FlowControlledWritable(
+      (call as {}) as Writable,
+      {},
+      () => 1
+    );
+
+    writable.write('a', () => {
+      assert.deepStrictEqual(call.messages, ['a']);
+      assert.strictEqual(writable.outstandingMessages, 1);
+      assert.strictEqual(writable.outstandingBytes, 1);
+      done();
+    });
+  });
+
+  it('should count messages until they are sent', done => {
+    const writable = new FlowControlledWritable(
+      (call as {}) as Writable,
+      {},
+      () => 10
+    );
+
+    writable.write('a');
+    writable.write('b', () => {
+      assert.strictEqual(writable.outstandingMessages, 2);
+      assert.strictEqual(writable.outstandingBytes, 20);
+
+      call.send();
+
+      setImmediate(() => {
+        assert.strictEqual(writable.outstandingMessages, 1);
+        assert.strictEqual(writable.outstandingBytes, 10);
+        done();
+      });
+    });
+  });
+
+  it('should hold back writes past the message limit', done => {
+    const writable = new FlowControlledWritable(
+      (call as {}) as Writable,
+      {maxOutstandingMessages: 1},
+      () => 0
+    );
+    let accepted = false;
+
+    writable.write('a', () => {
+      accepted = true;
+    });
+
+    setImmediate(() => {
+      assert.strictEqual(accepted, false);
+      assert.strictEqual(writable.isWithinLimits(), false);
+
+      call.send();
+
+      setImmediate(() => {
+        assert.strictEqual(accepted, true);
+        done();
+      });
+    });
+  });
+
+  it('should hold back writes past the byte limit', done => {
+    const writable = new FlowControlledWritable(
+      (call as {}) as Writable,
+      {maxOutstandingBytes: 15},
+      () => 10
+    );
+
+    writable.write('a');
+    writable.write('b');
+    writable.write('c');
+
+    setImmediate(() => {
+      assert.deepStrictEqual(call.messages, ['a', 'b']);
+      call.send();
+
+      setImmediate(() => {
+        assert.deepStrictEqual(call.messages, ['a', 'b', 'c']);
+        done();
+      });
+    });
+  });
+
+  it('should wait for the call to drain', done => {
+    call = new FakeCall(1);
+    const writable = new FlowControlledWritable(
+      (call as {}) as Writable,
+      {},
+      () => 0
+    );
+    let accepted = false;
+
+    writable.write('a', () => {
+      accepted = true;
+    });
+
+    setImmediate(() => {
+      assert.strictEqual(accepted, false);
+
+      call.send();
+
+      setImmediate(() => {
+        assert.strictEqual(accepted, true);
+        done();
+      });
+    });
+  });
+
+  it('should report when writing may continue', done => {
+    const writable = new FlowControlledWritable(
+      (call as {}) as Writable,
+      {maxOutstandingMessages: 1},
+      () => 0
+    );
+
+    assert.strictEqual(writable.write('a'), false);
+
+    writable.on('drain', () => {
+      assert.strictEqual(writable.outstandingMessages, 0);
+      done();
+    });
+
+    setImmediate(() => {
+      call.send();
+    });
+  });
+
+  it('should end the call', done => {
+    const writable = new FlowControlledWritable(
+      (call as {}) as Writable,
+      {},
+      () => 0
+    );
+    call.on('finish', done);
+    writable.end();
+  });
+});
@@ -0,0 +1,70 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {getHealthClient, HEALTH_SERVICE_NAME} from '../src/health';
+
+describe('health', () => {
+  describe('getHealthClient', () => {
+    it('should only build the client once', () => {
+      assert.strictEqual(getHealthClient(), getHealthClient());
+    });
+
+    it('should define the methods of the health service', () => {
+      const {Check, Watch} = getHealthClient().service;
+
+      assert.strictEqual(Check.path, `/${HEALTH_SERVICE_NAME}/Check`);
+      assert.strictEqual(Check.responseStream, false);
+      assert.strictEqual(Check.originalName, 'check');
+      assert.strictEqual(Watch.path, `/${HEALTH_SERVICE_NAME}/Watch`);
+      assert.strictEqual(Watch.responseStream, true);
+      assert.strictEqual(Watch.originalName, 'watch');
+    });
+
+    it('should name the methods in camel case', () => {
+      const prototype = getHealthClient().prototype;
+
+      assert.strictEqual(typeof prototype.check, 'function');
+      assert.strictEqual(typeof prototype.watch, 'function');
+    });
+
+    it('should encode requests', () => {
+      const {Check} = getHealthClient().service;
+      const buffer = Check.requestSerialize({service: 'service'});
+
+      assert.deepStrictEqual(Check.requestDeserialize(buffer), {
+        service: 'service',
+      });
+    });
+
+    it('should decode the serving status by name', () => {
+      const {Check} = getHealthClient().service;
+      const buffer = Check.responseSerialize({status: 'NOT_SERVING'});
+
+      assert.deepStrictEqual(Check.responseDeserialize(buffer), {
+        status: 'NOT_SERVING',
+      });
+    });
+
+    it('should decode a missing status as UNKNOWN', () => {
+      const {Watch} = getHealthClient().service;
+
+      assert.deepStrictEqual(Watch.responseDeserialize(Buffer.alloc(0)), {
+        status: 'UNKNOWN',
+      });
+    });
+  });
+});
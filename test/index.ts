@@ -23,6 +23,12 @@ describe('grpc-common', () => {
     assert(grpcCommon.ServiceObject);
     assert(grpcCommon.Operation);
     assert(grpcCommon.grpc);
+    assert(grpcCommon.TotalTimeoutError);
+    assert(grpcCommon.ServiceClosedError);
+    assert(grpcCommon.HEALTH_SERVICE_NAME);
+    assert(grpcCommon.decodeStatusDetails);
+    assert(grpcCommon.GrpcServiceError);
+    assert(grpcCommon.NotFoundError);
     assert(grpcCommon.util);
   });
 });
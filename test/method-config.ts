@@ -0,0 +1,161 @@
+// Copyright 2020 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {
+  findMethodConfig,
+  getMethodSettings,
+  parseDuration,
+  toStatusCode,
+} from '../src/method-config';
+
+describe('method config', () => {
+  const METHOD_CONFIG = {
+    name: [{service: 'google.longrunning.Operations', method: 'GetOperation'}],
+    timeout: '5s',
+  };
+  const SERVICE_CONFIG = {
+    name: [{service: 'google.longrunning.Operations'}],
+    timeout: '10s',
+  };
+  const DEFAULT_CONFIG = {
+    name: [{}],
+    timeout: '20s',
+  };
+  const GRPC_SERVICE_CONFIG = {
+    methodConfig: [DEFAULT_CONFIG, SERVICE_CONFIG, METHOD_CONFIG],
+  };
+
+  describe('parseDuration', () => {
+    it('should parse a duration to milliseconds', () => {
+      assert.strictEqual(parseDuration('1s'), 1000);
+      assert.strictEqual(parseDuration('0.25s'), 250);
+      assert.strictEqual(parseDuration('1.0005s'), 1001);
+    });
+
+    it('should throw on an invalid duration', () => {
+      assert.throws(() => parseDuration('1m'), /Invalid duration: "1m"./);
+    });
+  });
+
+  describe('toStatusCode', () => {
+    it('should convert a status code name', () => {
+      assert.strictEqual(toStatusCode('UNAVAILABLE'), 14);
+      assert.strictEqual(toStatusCode('deadline_exceeded'), 4);
+    });
+
+    it('should return a status code number', () => {
+      assert.strictEqual(toStatusCode(14), 14);
+    });
+
+    it('should throw on an unknown status code', () => {
+      assert.throws(() => toStatusCode('NOPE'), /Unknown status code: "NOPE"./);
+    });
+  });
+
+  describe('findMethodConfig', () => {
+    it('should prefer the config naming the method', () => {
+      assert.strictEqual(
+        findMethodConfig(GRPC_SERVICE_CONFIG, 'Operations', 'getOperation'),
+        METHOD_CONFIG
+      );
+    });
+
+    it('should fall back to the config naming the service', () => {
+      assert.strictEqual(
+        findMethodConfig(GRPC_SERVICE_CONFIG, 'Operations', 'listOperations'),
+        SERVICE_CONFIG
+      );
+    });
+
+    it('should match the fully qualified service name', () => {
+      assert.strictEqual(
+        findMethodConfig(
+          GRPC_SERVICE_CONFIG,
+          'google.longrunning.Operations',
+          'GetOperation'
+        ),
+        METHOD_CONFIG
+      );
+    });
+
+    it('should fall back to the default config', () => {
+      assert.strictEqual(
+        findMethodConfig(GRPC_SERVICE_CONFIG, 'Publisher', 'publish'),
+        DEFAULT_CONFIG
+      );
+    });
+
+    it('should not match a partial service name', () => {
+      assert.strictEqual(
+        findMethodConfig(
+          {methodConfig: [SERVICE_CONFIG]},
+          'longOperations',
+          'getOperation'
+        ),
+        undefined
+      );
+    });
+
+    it('should return undefined without method configs', () => {
+      assert.strictEqual(findMethodConfig({}, 'Operations', 'a'), undefined);
+    });
+  });
+
+  describe('getMethodSettings', () => {
+    it('should return no settings without a method config', () => {
+      assert.deepStrictEqual(getMethodSettings({}, 'Operations', 'a'), {});
+    });
+
+    it('should resolve the timeout', () => {
+      assert.deepStrictEqual(
+        getMethodSettings(GRPC_SERVICE_CONFIG, 'Operations', 'getOperation'),
+        {timeout: 5000}
+      );
+    });
+
+    it('should resolve the retry policy', () => {
+      const grpcServiceConfig = {
+        methodConfig: [
+          {
+            name: [{service: 'Operations'}],
+            retryPolicy: {
+              maxAttempts: 5,
+              initialBackoff: '0.1s',
+              maxBackoff: '10s',
+              backoffMultiplier: 1.5,
+              retryableStatusCodes: ['UNAVAILABLE', 8],
+            },
+          },
+        ],
+      };
+
+      assert.deepStrictEqual(
+        getMethodSettings(grpcServiceConfig, 'Operations', 'getOperation'),
+        {
+          retryOpts: {
+            retries: 5,
+            initialRetryDelayMillis: 100,
+            maxRetryDelayMillis: 10000,
+            retryDelayMultiplier: 1.5,
+            jitter: 'full',
+          },
+          retryableCodes: [14, 8],
+        }
+      );
+    });
+  });
+});
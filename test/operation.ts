@@ -43,6 +43,20 @@ class FakeGrpcServiceObject extends EventEmitter {
   getMetadata = () => {};
 }
 
+class FakeAbortSignal extends EventEmitter {
+  aborted = false;
+  addEventListener(type: string, listener: () => void) {
+    this.on(type, listener);
+  }
+  removeEventListener(type: string, listener: () => void) {
+    this.removeListener(type, listener);
+  }
+  abort() {
+    this.aborted = true;
+    this.emit('abort');
+  }
+}
+
 describe('GrpcOperation', () => {
   const FAKE_SERVICE = {
     Promise,
@@ -101,6 +115,97 @@ describe('GrpcOperation', () => {
         .grpcServiceObjectArguments_![0];
       assert.deepStrictEqual(config, EXPECTED_CONFIG);
     });
+
+    it('should pass the signal with the requests', () => {
+      const signal = new FakeAbortSignal();
+      const grpcOperation = new GrpcOperation(
+        FAKE_SERVICE as GrpcService,
+        OPERATION_ID,
+        {signal}
+      );
+      const config = ((grpcOperation as {}) as FakeGrpcServiceObject)
+        .grpcServiceObjectArguments_![0];
+      // tslint:disable-next-line no-any
+      const methods = (config as any).methods;
+
+      assert.strictEqual(grpcOperation.signal, signal);
+      assert.strictEqual(methods.delete.protoOpts.signal, signal);
+      assert.strictEqual(methods.getMetadata.protoOpts.signal, signal);
+    });
+  });
+
+  describe('startPolling_', () => {
+    afterEach(() => {
+      sandbox.restore();
+    });
+
+    it('should poll right away once the signal is aborted', done => {
+      const signal = new FakeAbortSignal();
+      const error = new Error('Cancelled.');
+      const grpcOperation = new GrpcOperation(
+        FAKE_SERVICE as GrpcService,
+        OPERATION_ID,
+        {signal}
+      );
+
+      sandbox
+        .stub(grpcOperation, 'getMetadata')
+        .onFirstCall()
+        .callsFake(callback => {
+          callback(null, {done: false});
+          setImmediate(() => signal.abort());
+        })
+        .onSecondCall()
+        .callsFake(callback => {
+          callback(error);
+        });
+
+      grpcOperation.on('complete', util.noop).on('error', err => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(grpcOperation.pollTimeout, undefined);
+        done();
+      });
+    });
+
+    it('should stop listening for the signal once complete', done => {
+      const signal = new FakeAbortSignal();
+      const grpcOperation = new GrpcOperation(
+        FAKE_SERVICE as GrpcService,
+        OPERATION_ID,
+        {signal}
+      );
+
+      sandbox.stub(grpcOperation, 'getMetadata').callsFake(callback => {
+        assert.strictEqual(signal.listenerCount('abort'), 1);
+        callback(null, {done: true});
+      });
+
+      grpcOperation.on('complete', () => {
+        assert.strictEqual(signal.listenerCount('abort'), 0);
+        done();
+      });
+    });
+
+    it('should stop listening for the signal once it fails', done => {
+      const signal = new FakeAbortSignal();
+      const error = new Error('Error.');
+      const grpcOperation = new GrpcOperation(
+        FAKE_SERVICE as GrpcService,
+        OPERATION_ID,
+        {signal}
+      );
+
+      sandbox.stub(grpcOperation, 'getMetadata').callsFake(callback => {
+        assert.strictEqual(signal.listenerCount('abort'), 1);
+        callback(error);
+      });
+
+      grpcOperation.on('complete', util.noop).on('error', err => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(signal.listenerCount('abort'), 0);
+        done();
+      });
+    });
   });
 
   describe('cancel', () => {
@@ -254,4 +254,25 @@ describe('GrpcServiceObject', () => {
       assert.strictEqual(ret, expectedReturnValue);
     });
   });
+
+  describe('requestDuplexStream', () => {
+    it('should call the parent requestDuplexStream method', () => {
+      const args = [1, 2, 3];
+      const expectedReturnValue = {};
+
+      grpcServiceObject.parent = {
+        requestDuplexStream() {
+          assert.strictEqual(this, grpcServiceObject.parent);
+          assert.deepStrictEqual([].slice.call(arguments), args);
+          return expectedReturnValue;
+        },
+      };
+
+      const ret = grpcServiceObject.requestDuplexStream.apply(
+        grpcServiceObject,
+        args
+      );
+      assert.strictEqual(ret, expectedReturnValue);
+    });
+  });
 });
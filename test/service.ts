@@ -24,7 +24,19 @@ import * as is from 'is';
 import * as proxyquire from 'proxyquire';
 import * as retryRequest from 'retry-request';
 import * as sn from 'sinon';
-import {PassThrough} from 'stream';
+import {EventEmitter} from 'events';
+import {Duplex, PassThrough} from 'stream';
+
+import {getStatusDetails} from '../src/error-details';
+import {getHealthClient} from '../src/health';
+import {
+  DeadlineExceededError,
+  FailedPreconditionError,
+  GrpcServiceError,
+  NotFoundError,
+  UnknownError,
+} from '../src/errors';
+import {FlowControlledWritable} from '../src/flow-control';
 
 const sinon = sn.createSandbox();
 const glob = (global as {}) as {GCLOUD_SANDBOX_ENV: boolean | {}};
@@ -38,6 +50,20 @@ const fakeUtil = Object.assign({}, util, {
   },
 });
 
+class FakeAbortSignal extends EventEmitter {
+  aborted = false;
+  addEventListener(type: string, listener: () => void) {
+    this.on(type, listener);
+  }
+  removeEventListener(type: string, listener: () => void) {
+    this.removeListener(type, listener);
+  }
+  abort() {
+    this.aborted = true;
+    this.emit('abort');
+  }
+}
+
 class FakeService {
   calledWith_: IArguments;
   constructor() {
@@ -58,6 +84,11 @@ function fakeRetryRequest() {
   return (retryRequestOverride || retryRequest).apply(null, arguments);
 }
 
+let getStatusDetailsOverride;
+function fakeGetStatusDetails() {
+  return (getStatusDetailsOverride || getStatusDetails).apply(null, arguments);
+}
+
 class FakeMetadata {
   constructor() {
     if (GrpcMetadataOverride) {
@@ -138,6 +169,7 @@ describe('GrpcService', () => {
         replaceProjectIdToken: fakeReplaceProjectIdTokenOverride,
       },
       '@grpc/proto-loader': fakeGrpcProtoLoader,
+      './error-details': {getStatusDetails: fakeGetStatusDetails},
       'retry-request': fakeRetryRequest,
     }).GrpcService;
     GrpcServiceCached = extend(true, {}, GrpcService);
@@ -146,7 +178,9 @@ describe('GrpcService', () => {
 
   beforeEach(() => {
     GrpcMetadataOverride = null;
+    replaceProjectIdTokenOverride = null;
     retryRequestOverride = null;
+    getStatusDetailsOverride = null;
     getUserAgentFromPackageJsonOverride = null;
     grpcProtoLoadOverride = () => {
       return MOCK_GRPC_API;
@@ -389,6 +423,88 @@ describe('GrpcService', () => {
       );
     });
 
+    it('should localize the gRPC interceptors', () => {
+      const interceptor = {};
+      const config = Object.assign({}, CONFIG, {
+        grpcInterceptors: [interceptor],
+      });
+      const grpcService = new GrpcService(config, OPTIONS);
+      assert.deepStrictEqual(grpcService.grpcInterceptors, [interceptor]);
+      assert.notStrictEqual(
+        grpcService.grpcInterceptors,
+        config.grpcInterceptors
+      );
+    });
+
+    it('should default to no gRPC interceptors', () => {
+      assert.deepStrictEqual(grpcService.grpcInterceptors, []);
+    });
+
+    it('should localize whether to use gRPC status codes', () => {
+      const config = Object.assign({}, CONFIG, {useGrpcStatusCodes: true});
+      const grpcService = new GrpcService(config, OPTIONS);
+      assert.strictEqual(grpcService.useGrpcStatusCodes, true);
+    });
+
+    it('should default to HTTP status codes', () => {
+      assert.strictEqual(grpcService.useGrpcStatusCodes, false);
+    });
+
+    it('should apply the configured HTTP status codes', () => {
+      const config = Object.assign({}, CONFIG, {
+        grpcErrorCodeToHttp: {
+          9: {code: 409},
+          14: {message: 'Try again later.'},
+        },
+      });
+      const grpcService = new GrpcService(config, OPTIONS);
+      const codeMap = grpcService.grpcErrorCodeToHttp;
+
+      assert.deepStrictEqual(codeMap[9], {
+        code: 409,
+        message: 'Precondition Failed',
+      });
+      assert.deepStrictEqual(codeMap[14], {
+        code: 503,
+        message: 'Try again later.',
+      });
+      assert.deepStrictEqual(
+        codeMap[5],
+        GrpcService.GRPC_ERROR_CODE_TO_HTTP[5]
+      );
+      assert.strictEqual(GrpcService.GRPC_ERROR_CODE_TO_HTTP[9].code, 412);
+    });
+
+    it('should default to the gRPC error map', () => {
+      assert.deepStrictEqual(
+        grpcService.grpcErrorCodeToHttp,
+        GrpcService.GRPC_ERROR_CODE_TO_HTTP
+      );
+    });
+
+    it('should localize the gRPC service config', () => {
+      const grpcServiceConfig = {methodConfig: []};
+      const config = Object.assign({}, CONFIG, {grpcServiceConfig});
+      const grpcService = new GrpcService(config, OPTIONS);
+      assert.strictEqual(grpcService.grpcServiceConfig, grpcServiceConfig);
+    });
+
+    it('should parse a gRPC service config JSON string', () => {
+      const grpcServiceConfig = {methodConfig: []};
+      const config = Object.assign({}, CONFIG, {
+        grpcServiceConfig: JSON.stringify(grpcServiceConfig),
+      });
+      const grpcService = new GrpcService(config, OPTIONS);
+      assert.deepStrictEqual(grpcService.grpcServiceConfig, grpcServiceConfig);
+    });
+
+    it('should localize the flow control settings', () => {
+      const flowControl = {maxOutstandingMessages: 10};
+      const config = Object.assign({}, CONFIG, {flowControl});
+      const grpcService = new GrpcService(config, OPTIONS);
+      assert.strictEqual(grpcService.flowControl, flowControl);
+    });
+
     it('should localize an empty Map of services', () => {
       assert(grpcService.activeServiceMap_ instanceof Map);
       assert.strictEqual(grpcService.activeServiceMap_.size, 0);
@@ -433,6 +549,62 @@ describe('GrpcService', () => {
       assert.strictEqual(grpcService.protos.Service.baseUrl, fakeBaseUrl);
     });
 
+    it('should store the method options', () => {
+      const methods = {create: {idempotent: false}};
+      const config = extend(true, {}, CONFIG, {
+        protoServices: {
+          Service: {methods},
+        },
+      });
+
+      const grpcService = new GrpcService(config, OPTIONS);
+
+      assert.deepStrictEqual(grpcService.protoMethods, {Service: methods});
+    });
+
+    it('should store the channel pool settings', () => {
+      const channelPool = {size: 2};
+      const config = extend(true, {}, CONFIG, {
+        channelPool: {size: 4},
+        protoServices: {
+          Service: {channelPool},
+        },
+      });
+
+      const grpcService = new GrpcService(config, OPTIONS);
+
+      assert.deepStrictEqual(grpcService.channelPool, {size: 4});
+      assert.deepStrictEqual(grpcService.protoChannelPools, {
+        Service: channelPool,
+      });
+    });
+
+    it('should store the channel options', () => {
+      const channelOptions = {'grpc.keepalive_time_ms': 1000};
+      const config = extend(true, {}, CONFIG, {
+        channelOptions: {'grpc.max_receive_message_length': 1024},
+        protoServices: {
+          Service: {channelOptions},
+        },
+      });
+
+      const grpcService = new GrpcService(config, OPTIONS);
+
+      assert.deepStrictEqual(grpcService.channelOptions, {
+        'grpc.max_receive_message_length': 1024,
+      });
+      assert.deepStrictEqual(grpcService.protoChannelOptions, {
+        Service: channelOptions,
+      });
+    });
+
+    it('should store the service to check the health of', () => {
+      const config = extend(true, {}, CONFIG, {healthCheckService: 'Service'});
+      const grpcService = new GrpcService(config, OPTIONS);
+
+      assert.strictEqual(grpcService.healthCheckService, 'Service');
+    });
+
     it('should not run in the gcloud sandbox environment', () => {
       glob.GCLOUD_SANDBOX_ENV = {};
       const grpcService = new GrpcService();
@@ -649,6 +821,107 @@ describe('GrpcService', () => {
         retryRequestCallback(error, response);
       });
 
+      it('should disable the retry-request delay', () => {
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+        assert.strictEqual(retryRequestOptions.maxRetryDelay, 0);
+      });
+
+      it('should delay retries with the backoff', () => {
+        const clock = sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          retryOpts: {initialRetryDelayMillis: 100, jitter: 'none'},
+        });
+
+        let calls = 0;
+        grpcService.getService_ = () => {
+          return {
+            method() {
+              calls++;
+            },
+          };
+        };
+
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
+
+        retryRequestOptions.request({}, util.noop);
+        assert.strictEqual(calls, 1);
+
+        assert.strictEqual(
+          retryRequestOptions.shouldRetryFn({code: 503}),
+          true
+        );
+        retryRequestOptions.request({}, util.noop);
+        clock.tick(99);
+        assert.strictEqual(calls, 1);
+        clock.tick(1);
+        assert.strictEqual(calls, 2);
+        clock.restore();
+      });
+
+      it('should cancel a delayed retry', () => {
+        const clock = sinon.useFakeTimers();
+        const cancel = sinon.spy();
+        let calls = 0;
+
+        grpcService.getService_ = () => {
+          return {
+            method() {
+              calls++;
+              return Object.assign(new EventEmitter(), {cancel});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+
+        retryRequestOptions.request({}, util.noop);
+        retryRequestOptions.request({}, util.noop).abort();
+        clock.tick(64000);
+        assert.strictEqual(calls, 1);
+        clock.restore();
+      });
+
+      it('should use the backoff settings of the service', () => {
+        const clock = sinon.useFakeTimers();
+        grpcService.backoffSettings = {
+          initialRetryDelayMillis: 10,
+          jitter: 'none',
+        };
+
+        let calls = 0;
+        grpcService.getService_ = () => {
+          return {
+            method() {
+              calls++;
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+
+        retryRequestOptions.request({}, util.noop);
+        retryRequestOptions.shouldRetryFn({code: 503});
+        retryRequestOptions.request({}, util.noop);
+        clock.tick(10);
+        assert.strictEqual(calls, 2);
+        clock.restore();
+      });
+
+      it('should not retry past the retry budget', () => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          retryOpts: {
+            initialRetryDelayMillis: 1000,
+            jitter: 'none',
+            maxRetryDurationMillis: 500,
+          },
+        });
+
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
+
+        const shouldRetryFn = retryRequestOptions.shouldRetryFn;
+        assert.strictEqual(shouldRetryFn({code: 503}), false);
+      });
+
       it('should retry on 429, 500, 502, and 503', () => {
         grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
 
@@ -688,7 +961,8 @@ describe('GrpcService', () => {
 
         const onResponse = (err, resp) => {
           assert.strictEqual(err, null);
-          assert.deepStrictEqual(resp, GrpcService.GRPC_ERROR_CODE_TO_HTTP[2]);
+          assert(resp instanceof UnknownError);
+          assert.strictEqual(resp.code, 500);
           done();
         };
 
@@ -696,7 +970,7 @@ describe('GrpcService', () => {
       });
 
       it('should return grpc request', () => {
-        const grpcRequest = {};
+        const grpcRequest = new EventEmitter();
 
         grpcService.getService_ = () => {
           return {
@@ -724,7 +998,9 @@ describe('GrpcService', () => {
         };
 
         grpcService.request(PROTO_OPTS, REQ_OPTS, (err, resp) => {
-          assert.deepStrictEqual(err, GrpcService.GRPC_ERROR_CODE_TO_HTTP[2]);
+          assert(err instanceof UnknownError);
+          assert.strictEqual(err.code, 500);
+          assert.strictEqual(err.message, 'Internal Server Error');
           assert.strictEqual(resp, null);
           done();
         });
@@ -755,6 +1031,85 @@ describe('GrpcService', () => {
         // the callback passed to retry-request. We will check if the grpc Error
         retryRequestOptions.request({}, retryRequestCallback);
       });
+
+      it('should keep the gRPC status code of the error', done => {
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: grpc.status.ABORTED});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err.code, 409);
+          assert.strictEqual(err.httpCode, 409);
+          assert.strictEqual(err.grpcCode, grpc.status.ABORTED);
+          assert.strictEqual(err.grpcCodeName, 'ABORTED');
+          done();
+        });
+
+        retryRequestOptions.request({}, retryRequestCallback);
+      });
+
+      it('should use the HTTP status codes of the service', done => {
+        grpcService.grpcErrorCodeToHttp = {
+          [grpc.status.FAILED_PRECONDITION]: {code: 409, message: 'Conflict'},
+        };
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: grpc.status.FAILED_PRECONDITION});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err.code, 409);
+          assert.strictEqual(err.message, 'Conflict');
+          done();
+        });
+
+        retryRequestOptions.request({}, retryRequestCallback);
+      });
+
+      it('should decide on retries with the HTTP status codes of the service', () => {
+        grpcService.grpcErrorCodeToHttp = {
+          [grpc.status.UNKNOWN]: {code: 400, message: 'Bad Request'},
+        };
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: grpc.status.UNKNOWN});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+
+        retryRequestOptions.request({}, (err, resp) => {
+          assert.strictEqual(retryRequestOptions.shouldRetryFn(resp), false);
+        });
+      });
+
+      it('should use the gRPC status code if configured to', done => {
+        grpcService.useGrpcStatusCodes = true;
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: grpc.status.ALREADY_EXISTS});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err.code, grpc.status.ALREADY_EXISTS);
+          assert.strictEqual(err.httpCode, 409);
+          done();
+        });
+
+        retryRequestOptions.request({}, retryRequestCallback);
+      });
     });
 
     describe('request option decoration', () => {
@@ -796,662 +1151,3772 @@ describe('GrpcService', () => {
       });
     });
 
-    describe('retry request', () => {
-      it('should make the correct request on the service', done => {
-        grpcService.getService_ = () => {
-          return {
-            method(reqOpts) {
-              assert.deepStrictEqual(reqOpts, REQ_OPTS);
-              done();
+    describe('gRPC service config', () => {
+      const RETRY_POLICY = {
+        maxAttempts: 3,
+        initialBackoff: '0.1s',
+        maxBackoff: '1s',
+        backoffMultiplier: 2,
+        retryableStatusCodes: ['UNAVAILABLE'],
+      };
+
+      let retryRequestOptions;
+
+      beforeEach(() => {
+        grpcService.grpcServiceConfig = {
+          methodConfig: [
+            {
+              name: [{service: 'google.test.service'}],
+              timeout: '10s',
+              retryPolicy: RETRY_POLICY,
             },
-          };
+          ],
+        };
+
+        retryRequestOverride = (reqOpts, options) => {
+          retryRequestOptions = options;
+        };
+      });
+
+      it('should use the timeout of the method config', done => {
+        const createDeadline = GrpcService.createDeadline_;
+        const protoOpts = {service: 'service', method: 'method'};
+
+        GrpcService.createDeadline_ = timeout => {
+          assert.strictEqual(timeout, 10000);
+          GrpcService.createDeadline_ = createDeadline;
+          done();
+        };
+
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
+      });
+
+      it('should prefer the timeout of the call', done => {
+        const createDeadline = GrpcService.createDeadline_;
+
+        GrpcService.createDeadline_ = timeout => {
+          assert.strictEqual(timeout, PROTO_OPTS.timeout);
+          GrpcService.createDeadline_ = createDeadline;
+          done();
         };
 
         grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
       });
 
-      it('should pass the grpc metadata with the request', done => {
+      it('should return an invalid method config to the callback', done => {
+        grpcService.grpcServiceConfig.methodConfig[0].timeout = '10';
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err.message, 'Invalid duration: "10".');
+          done();
+        });
+      });
+
+      it('should use the retry policy of the method config', () => {
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+        assert.strictEqual(retryRequestOptions.retries, 3);
+      });
+
+      it('should make as many attempts as the retry policy allows', done => {
+        let attempts = 0;
+
+        retryRequestOverride = null;
+        grpcService.grpcServiceConfig.methodConfig[0].retryPolicy = Object.assign(
+          {},
+          RETRY_POLICY,
+          {initialBackoff: '0.001s'}
+        );
         grpcService.getService_ = () => {
           return {
-            method(reqOpts, metadata) {
-              assert.strictEqual(metadata, grpcService.grpcMetadata);
-              done();
+            method(reqOpts, metadata, grpcOpts, callback) {
+              attempts++;
+              callback({code: grpc.status.UNAVAILABLE});
             },
           };
         };
 
-        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err.code, 503);
+          assert.strictEqual(attempts, 3);
+          done();
+        });
       });
 
-      it('should set a deadline if a timeout is provided', done => {
-        const expectedDeadlineRange = [
-          Date.now() + PROTO_OPTS.timeout - 250,
-          Date.now() + PROTO_OPTS.timeout + 250,
-        ];
+      it('should stop retrying once an attempt succeeds', done => {
+        const response = {};
+        let attempts = 0;
 
+        retryRequestOverride = null;
+        grpcService.grpcServiceConfig.methodConfig[0].retryPolicy = Object.assign(
+          {},
+          RETRY_POLICY,
+          {initialBackoff: '0.001s'}
+        );
         grpcService.getService_ = () => {
           return {
-            method(reqOpts, metadata, grpcOpts) {
-              assert(is.date(grpcOpts.deadline));
-
-              assert(grpcOpts.deadline.getTime() > expectedDeadlineRange[0]);
-              assert(grpcOpts.deadline.getTime() < expectedDeadlineRange[1]);
-
-              done();
+            method(reqOpts, metadata, grpcOpts, callback) {
+              if (attempts++ === 0) {
+                callback({code: grpc.status.UNAVAILABLE});
+                return;
+              }
+              callback(null, response);
             },
           };
         };
 
-        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+        grpcService.request(PROTO_OPTS, REQ_OPTS, (err, resp) => {
+          assert.ifError(err);
+          assert.strictEqual(resp, response);
+          assert.strictEqual(attempts, 2);
+          done();
+        });
       });
 
-      describe('request response error', () => {
-        it('should look up the http status from the code', () => {
-          // tslint:disable-next-line:forin
-          for (const grpcErrorCode in GrpcService.GRPC_ERROR_CODE_TO_HTTP) {
-            const grpcError = {code: grpcErrorCode};
-            const httpError =
-              GrpcService.GRPC_ERROR_CODE_TO_HTTP[grpcErrorCode];
-
-            grpcService.getService_ = () => {
-              return {
-                method(reqOpts, metadata, grpcOpts, callback) {
-                  callback(grpcError);
-                },
-              };
-            };
-
-            grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
-              assert.strictEqual(err.code, httpError.code);
-            });
-          }
-          /*jshint loopfunc:false */
+      it('should prefer the retry options of the call', () => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          retryOpts: {retries: 7},
         });
+
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
+        assert.strictEqual(retryRequestOptions.retries, 7);
       });
 
-      describe('request response success', () => {
-        const RESPONSE = {};
+      it('should only retry the retryable status codes', () => {
+        let statusCode;
 
-        beforeEach(() => {
-          grpcService.getService_ = () => {
-            return {
-              method(reqOpts, metadata, grpcOpts, callback) {
-                callback(null, RESPONSE);
-              },
-            };
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: statusCode});
+            },
           };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+
+        const shouldRetryFn = retryRequestOptions.shouldRetryFn;
+        const onResponse = (err, resp) => shouldRetryFn(resp);
+
+        // Both map to HTTP 500, but only UNAVAILABLE is retryable.
+        statusCode = 13;
+        retryRequestOptions.request({}, (err, resp) => {
+          assert.strictEqual(onResponse(err, resp), false);
         });
 
-        it('should execute callback with response', done => {
-          grpcService.request(PROTO_OPTS, REQ_OPTS, (err, resp) => {
-            assert.ifError(err);
-            assert.strictEqual(resp, RESPONSE);
-            done();
-          });
+        statusCode = 14;
+        retryRequestOptions.request({}, (err, resp) => {
+          assert.strictEqual(onResponse(err, resp), true);
         });
       });
     });
-  });
-
-  describe('requestStream', () => {
-    let PROTO_OPTS;
-    const REQ_OPTS = {};
-    const GRPC_CREDENTIALS = {};
-    let fakeStream;
 
-    function ProtoService() {}
+    describe('timeouts', () => {
+      const error = new Error('err.');
+      let retryRequestOptions;
+      let retryRequestCallback;
 
-    beforeEach(() => {
-      PROTO_OPTS = {service: 'service', method: 'method', timeout: 3000};
-      ProtoService.prototype.method = () => {};
+      beforeEach(() => {
+        retryRequestOverride = (reqOpts, options, callback) => {
+          retryRequestOptions = options;
+          retryRequestCallback = callback;
+        };
+      });
 
-      grpcService.grpcCredentials = GRPC_CREDENTIALS;
-      grpcService.baseUrl = 'http://base-url';
-      grpcService.proto = {};
-      grpcService.proto.service = ProtoService;
+      it('should give every attempt its own deadline', () => {
+        const clock = sinon.useFakeTimers();
+        const protoOpts = {
+          service: 'service',
+          method: 'method',
+          attemptTimeout: 100,
+          retryOpts: {initialRetryDelayMillis: 10, jitter: 'none'},
+        };
+        const deadlines: Date[] = [];
 
-      grpcService.getService_ = () => {
-        return new ProtoService();
-      };
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts) {
+              deadlines.push(grpcOpts.deadline);
+            },
+          };
+        };
 
-      fakeStream = new PassThrough({objectMode: true});
-      retryRequestOverride = () => {
-        return fakeStream;
-      };
-    });
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
 
-    afterEach(() => {
-      retryRequestOverride = null;
-    });
+        retryRequestOptions.request({}, util.noop);
+        clock.tick(50);
+        retryRequestOptions.request({}, util.noop);
+        clock.tick(10);
 
-    it('should not run in the gcloud sandbox environment', () => {
-      delete grpcService.grpcCredentials;
+        assert.deepStrictEqual(
+          deadlines.map(deadline => deadline.getTime()),
+          [100, 160]
+        );
+      });
 
-      grpcService.getGrpcCredentials_ = () => {
-        throw new Error('Should not be called.');
-      };
+      it('should cap the attempt deadline by the total timeout', done => {
+        sinon.useFakeTimers();
+        const protoOpts = {
+          service: 'service',
+          method: 'method',
+          attemptTimeout: 100,
+          totalTimeout: 50,
+        };
 
-      glob.GCLOUD_SANDBOX_ENV = true;
-      grpcService.requestStream();
-      delete glob.GCLOUD_SANDBOX_ENV;
-    });
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts) {
+              assert.strictEqual(grpcOpts.deadline.getTime(), 50);
+              done();
+            },
+          };
+        };
 
-    describe('getting gRPC credentials', () => {
-      beforeEach(() => {
-        delete grpcService.grpcCredentials;
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
+        retryRequestOptions.request({}, util.noop);
       });
 
-      describe('credentials error', () => {
-        const error = new Error('err');
+      it('should fail once the total timeout ran out', done => {
+        const clock = sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {totalTimeout: 100});
 
-        beforeEach(() => {
-          grpcService.getGrpcCredentials_ = callback => {
-            callback(error);
-          };
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert(err instanceof GrpcService.TotalTimeoutError);
+          assert.strictEqual(err.message, 'Total timeout of 100ms exceeded.');
+          assert.strictEqual(err.code, 504);
+          assert.strictEqual(err.totalTimeout, 100);
+          assert.strictEqual(err.cause, error);
+          done();
         });
 
-        it('should execute callback with error', done => {
-          grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
-            assert.strictEqual(err, error);
-            done();
-          });
-        });
+        clock.tick(100);
+        retryRequestCallback(error);
       });
 
-      describe('credentials success', () => {
-        const authClient = {};
-
-        beforeEach(() => {
-          grpcService.getGrpcCredentials_ = callback => {
-            callback(null, authClient);
-          };
+      it('should fail when no retry fits in the total timeout', done => {
+        sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          totalTimeout: 100,
+          retryOpts: {initialRetryDelayMillis: 100, jitter: 'none'},
         });
 
-        it('should make the gRPC request again', done => {
-          grpcService.getService_ = () => {
-            assert.strictEqual(grpcService.grpcCredentials, authClient);
-            setImmediate(done);
-            return new ProtoService();
-          };
-
-          grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', done);
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert(err instanceof GrpcService.TotalTimeoutError);
+          assert.strictEqual(err.cause, error);
+          done();
         });
-      });
-    });
 
-    it('should get the proto service', done => {
-      grpcService.getService_ = protoOpts => {
-        assert.strictEqual(protoOpts, PROTO_OPTS);
-        setImmediate(done);
-        return new ProtoService();
-      };
+        assert.strictEqual(
+          retryRequestOptions.shouldRetryFn({code: 503}),
+          false
+        );
+        retryRequestCallback(error);
+      });
 
-      grpcService.requestStream(PROTO_OPTS, REQ_OPTS, assert.ifError);
-    });
+      it('should not claim the total timeout ran out before it did', done => {
+        const clock = sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          totalTimeout: 120,
+          retryOpts: {initialRetryDelayMillis: 100, jitter: 'none'},
+        });
 
-    it('should set the deadline', done => {
-      const createDeadline = GrpcService.createDeadline_;
-      const fakeDeadline = createDeadline(PROTO_OPTS.timeout);
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert(err instanceof GrpcService.TotalTimeoutError);
+          assert.strictEqual(
+            err.message,
+            'No retry could be made within the total timeout of 120ms.'
+          );
+          assert.strictEqual(err.code, 504);
+          assert.strictEqual(err.cause, error);
+          done();
+        });
 
-      GrpcService.createDeadline_ = timeout => {
-        assert.strictEqual(timeout, PROTO_OPTS.timeout);
-        return fakeDeadline;
-      };
+        clock.tick(58);
+        assert.strictEqual(
+          retryRequestOptions.shouldRetryFn({code: 503}),
+          false
+        );
+        retryRequestCallback(error);
+      });
 
-      ProtoService.prototype.method = (reqOpts, metadata, grpcOpts) => {
-        assert.strictEqual(grpcOpts.deadline, fakeDeadline);
+      it('should wait as long as the server asked for', () => {
+        const clock = sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          retryOpts: {initialRetryDelayMillis: 10, jitter: 'none'},
+        });
+        let calls = 0;
 
-        GrpcService.createDeadline_ = createDeadline;
-        setImmediate(done);
+        grpcService.getService_ = () => {
+          return {
+            method() {
+              calls++;
+            },
+          };
+        };
 
-        return new PassThrough({objectMode: true});
-      };
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
 
-      retryRequestOverride = (_, retryOpts) => {
-        return retryOpts.request();
-      };
+        retryRequestOptions.request({}, util.noop);
+        assert.strictEqual(
+          retryRequestOptions.shouldRetryFn({
+            code: 429,
+            retryInfo: {retryDelay: {seconds: 2, nanos: 500000000}},
+          }),
+          true
+        );
+        retryRequestOptions.request({}, util.noop);
 
-      grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
-    });
+        clock.tick(2499);
+        assert.strictEqual(calls, 1);
+        clock.tick(1);
+        assert.strictEqual(calls, 2);
+      });
 
-    it('should pass the grpc metadata with the request', done => {
-      ProtoService.prototype.method = (reqOpts, metadata) => {
-        assert.strictEqual(metadata, grpcService.grpcMetadata);
-        setImmediate(done);
-        return new PassThrough({objectMode: true});
-      };
+      it('should fail when the server delay passes the total timeout', done => {
+        sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {totalTimeout: 1000});
 
-      retryRequestOverride = (_, retryOpts) => {
-        return retryOpts.request();
-      };
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert(err instanceof GrpcService.TotalTimeoutError);
+          done();
+        });
 
-      grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+        assert.strictEqual(
+          retryRequestOptions.shouldRetryFn({
+            code: 503,
+            retryInfo: {retryDelay: {seconds: 1, nanos: 0}},
+          }),
+          false
+        );
+        retryRequestCallback(error);
+      });
     });
 
-    describe('request option decoration', () => {
-      beforeEach(() => {
-        ProtoService.prototype.method = () => {
-          return new PassThrough({objectMode: true});
-        };
+    describe('idempotency', () => {
+      let retryRequestOptions;
 
+      beforeEach(() => {
         retryRequestOverride = (reqOpts, options) => {
-          return options.request();
+          retryRequestOptions = options;
         };
       });
 
-      describe('requestStream() success', () => {
-        it('should decorate the request', done => {
-          const decoratedRequest = {};
+      it('should retry any error of an idempotent request', () => {
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
 
-          grpcService.decorateRequest_ = reqOpts => {
-            assert.strictEqual(reqOpts, REQ_OPTS);
-            return decoratedRequest;
-          };
+        assert.strictEqual(retryRequestOptions.noResponseRetries, undefined);
+        assert.strictEqual(
+          retryRequestOptions.shouldRetryFn({code: 500}),
+          true
+        );
+      });
 
-          ProtoService.prototype.method = reqOpts => {
-            assert.strictEqual(reqOpts, decoratedRequest);
-            setImmediate(done);
-            return new PassThrough({objectMode: true});
+      it('should only retry UNAVAILABLE for a non-idempotent request', () => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {idempotent: false});
+        let statusCode;
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: statusCode});
+            },
           };
+        };
 
-          grpcService
-            .requestStream(PROTO_OPTS, REQ_OPTS)
-            .on('error', assert.ifError);
-        });
-      });
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
 
-      describe('requestStream() error', () => {
-        it('should end stream with a thrown error', done => {
-          const error = new Error('Error.');
+        assert.strictEqual(retryRequestOptions.noResponseRetries, 0);
 
-          grpcService.decorateRequest_ = () => {
-            throw error;
-          };
+        const shouldRetryFn = retryRequestOptions.shouldRetryFn;
 
-          grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
-            assert.strictEqual(err, error);
-            done();
-          });
+        statusCode = 13;
+        retryRequestOptions.request({}, (err, resp) => {
+          assert.strictEqual(shouldRetryFn(resp), false);
+        });
+
+        statusCode = 14;
+        retryRequestOptions.request({}, (err, resp) => {
+          assert.strictEqual(shouldRetryFn(resp), true);
         });
       });
     });
 
-    describe('retry strategy', () => {
-      let retryRequestReqOpts;
-      let retryRequestOptions;
-      let retryStream;
+    describe('cancellation', () => {
+      let signal: FakeAbortSignal;
 
       beforeEach(() => {
-        retryRequestReqOpts = retryRequestOptions = null;
-        retryStream = new PassThrough({objectMode: true});
+        signal = new FakeAbortSignal();
+      });
 
-        retryRequestOverride = (reqOpts, options) => {
-          retryRequestReqOpts = reqOpts;
-          retryRequestOptions = options;
+      it('should not make a request with an aborted signal', done => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {signal});
+        signal.abort();
+
+        grpcService.getService_ = () => {
+          throw new Error('Should not be called.');
+        };
+
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert.strictEqual(err.code, 499);
+          assert.strictEqual(err.message, 'The call was cancelled.');
+          done();
+        });
+      });
+
+      it('should call back with an aborted signal asynchronously', done => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {signal});
+        let returned = false;
+        signal.abort();
+
+        grpcService.request(protoOpts, REQ_OPTS, () => {
+          assert.strictEqual(returned, true);
+          done();
+        });
+        returned = true;
+      });
+
+      it('should use the gRPC status code if configured to', done => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {signal});
+        grpcService.useGrpcStatusCodes = true;
+        signal.abort();
+
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert.strictEqual(err.code, grpc.status.CANCELLED);
+          done();
+        });
+      });
+
+      it('should stop waiting for the gRPC credentials', done => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {signal});
+        let credentialsCallback;
+
+        delete grpcService.grpcCredentials;
+        grpcService.getGrpcCredentials_ = callback => {
+          credentialsCallback = callback;
+        };
+        grpcService.getService_ = () => {
+          throw new Error('Should not be called.');
+        };
+
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert.strictEqual(err.code, 499);
+          credentialsCallback(null, {});
+          assert.strictEqual(signal.listenerCount('abort'), 0);
+          done();
+        });
+
+        signal.abort();
+      });
+
+      it('should cancel the active call', done => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {signal});
+        const cancel = sinon.spy();
+        const abort = sinon.spy();
+        let retryRequestOptions;
+        let retryRequestCallback;
+
+        grpcService.getService_ = () => {
+          return {
+            method() {
+              return Object.assign(new EventEmitter(), {cancel});
+            },
+          };
+        };
+        retryRequestOverride = (reqOpts, options, callback) => {
+          retryRequestOptions = options;
+          retryRequestCallback = callback;
+          return {abort};
+        };
+
+        grpcService.request(protoOpts, REQ_OPTS, err => {
+          assert.strictEqual(err.code, 499);
+          assert.strictEqual(abort.callCount, 1);
+          assert.strictEqual(cancel.callCount, 1);
+
+          // The result of the cancelled call is ignored.
+          retryRequestCallback(new Error('Cancelled.'));
+          assert.strictEqual(signal.listenerCount('abort'), 0);
+          done();
+        });
+
+        retryRequestOptions.request({}, util.noop);
+        signal.abort();
+      });
+
+      it('should not make a scheduled retry', () => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {signal});
+        const method = sinon.spy();
+        let retryRequestOptions;
+
+        grpcService.getService_ = () => {
+          return {method};
+        };
+        retryRequestOverride = (reqOpts, options) => {
+          retryRequestOptions = options;
+          return {abort: util.noop};
+        };
+
+        grpcService.request(protoOpts, REQ_OPTS, util.noop);
+        signal.abort();
+
+        assert.strictEqual(
+          retryRequestOptions.request({}, util.noop),
+          undefined
+        );
+        assert.strictEqual(method.callCount, 0);
+      });
+    });
+
+    describe('interceptors', () => {
+      it('should make the request intercepted by interceptors', done => {
+        const reqOpts = {};
+        const callOptions = {};
+
+        grpcService.addGrpcInterceptor({
+          request(context) {
+            assert.strictEqual(context.type, 'unary');
+            assert.strictEqual(context.protoOpts, PROTO_OPTS);
+            context.reqOpts = reqOpts;
+            context.callOptions = callOptions;
+            context.metadata.set('x-interceptor', 'a');
+          },
+        });
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts_, metadata, callOptions_) {
+              assert.strictEqual(reqOpts_, reqOpts);
+              assert.strictEqual(callOptions_, callOptions);
+              assert.deepStrictEqual(metadata.get('x-interceptor'), ['a']);
+              assert.deepStrictEqual(
+                grpcService.grpcMetadata.get('x-interceptor'),
+                []
+              );
+              done();
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+      });
+
+      it('should return a thrown error to the callback', done => {
+        const error = new Error('Error.');
+
+        grpcService.addGrpcInterceptor({
+          request() {
+            throw error;
+          },
+        });
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err, error);
+          done();
+        });
+      });
+
+      it('should pass the response through the interceptors', done => {
+        const response = {};
+        const interceptedResponse = {};
+
+        grpcService.addGrpcInterceptor({
+          response(resp, context) {
+            assert.strictEqual(resp, response);
+            assert.strictEqual(context.type, 'unary');
+            return interceptedResponse;
+          },
+        });
+        grpcService.addGrpcInterceptor({response() {}});
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback(null, response);
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, (err, resp) => {
+          assert.ifError(err);
+          assert.strictEqual(resp, interceptedResponse);
+          done();
+        });
+      });
+
+      it('should pass the error through the interceptors', done => {
+        const interceptedError = new Error('Intercepted.');
+
+        grpcService.addGrpcInterceptor({
+          error(err) {
+            assert.strictEqual(err.code, 404);
+            return interceptedError;
+          },
+        });
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: 5});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err, interceptedError);
+          done();
+        });
+      });
+
+      it('should return an error a response hook throws', done => {
+        const error = new Error('Error.');
+
+        grpcService.addGrpcInterceptor({
+          response() {
+            throw error;
+          },
+        });
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback(null, {});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, (err, resp) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(resp, undefined);
+          done();
+        });
+      });
+
+      it('should return an error an error hook throws', done => {
+        const error = new Error('Error.');
+
+        grpcService.addGrpcInterceptor({
+          error() {
+            throw error;
+          },
+        });
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts, callback) {
+              callback({code: 5});
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err, error);
+          done();
+        });
+      });
+    });
+
+    describe('retry request', () => {
+      it('should make the correct request on the service', done => {
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts) {
+              assert.deepStrictEqual(reqOpts, REQ_OPTS);
+              done();
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+      });
+
+      it('should pass the grpc metadata with the request', done => {
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata) {
+              assert.strictEqual(metadata, grpcService.grpcMetadata);
+              done();
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+      });
+
+      it('should pass the per-call metadata with the request', done => {
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          metadata: {'x-goog-request-params': 'name=a'},
+        });
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata) {
+              assert.notStrictEqual(metadata, grpcService.grpcMetadata);
+              assert.deepStrictEqual(metadata.get('x-goog-request-params'), [
+                'name=a',
+              ]);
+              done();
+            },
+          };
+        };
+
+        grpcService.request(protoOpts, REQ_OPTS, assert.ifError);
+      });
+
+      it('should set a deadline if a timeout is provided', done => {
+        const expectedDeadlineRange = [
+          Date.now() + PROTO_OPTS.timeout - 250,
+          Date.now() + PROTO_OPTS.timeout + 250,
+        ];
+
+        grpcService.getService_ = () => {
+          return {
+            method(reqOpts, metadata, grpcOpts) {
+              assert(is.date(grpcOpts.deadline));
+
+              assert(grpcOpts.deadline.getTime() > expectedDeadlineRange[0]);
+              assert(grpcOpts.deadline.getTime() < expectedDeadlineRange[1]);
+
+              done();
+            },
+          };
+        };
+
+        grpcService.request(PROTO_OPTS, REQ_OPTS, assert.ifError);
+      });
+
+      describe('request response error', () => {
+        it('should look up the http status from the code', () => {
+          // Retries would finish after this test is over.
+          grpcService.maxRetries = 0;
+
+          // tslint:disable-next-line:forin
+          for (const grpcErrorCode in GrpcService.GRPC_ERROR_CODE_TO_HTTP) {
+            const grpcError = {code: grpcErrorCode};
+            const httpError =
+              GrpcService.GRPC_ERROR_CODE_TO_HTTP[grpcErrorCode];
+
+            grpcService.getService_ = () => {
+              return {
+                method(reqOpts, metadata, grpcOpts, callback) {
+                  callback(grpcError);
+                },
+              };
+            };
+
+            grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+              assert.strictEqual(err.code, httpError.code);
+            });
+          }
+          /*jshint loopfunc:false */
+        });
+      });
+
+      describe('request response success', () => {
+        const RESPONSE = {};
+
+        beforeEach(() => {
+          grpcService.getService_ = () => {
+            return {
+              method(reqOpts, metadata, grpcOpts, callback) {
+                callback(null, RESPONSE);
+              },
+            };
+          };
+        });
+
+        it('should execute callback with response', done => {
+          grpcService.request(PROTO_OPTS, REQ_OPTS, (err, resp) => {
+            assert.ifError(err);
+            assert.strictEqual(resp, RESPONSE);
+            done();
+          });
+        });
+
+        it('should execute callback with the response metadata', done => {
+          const responseMetadata = new grpc.Metadata();
+
+          grpcService.getService_ = () => {
+            return {
+              method(reqOpts, metadata, grpcOpts, callback) {
+                const call = new EventEmitter();
+                setImmediate(() => {
+                  call.emit('metadata', responseMetadata);
+                  callback(null, RESPONSE);
+                });
+                return call;
+              },
+            };
+          };
+
+          grpcService.request(PROTO_OPTS, REQ_OPTS, (err, resp, metadata) => {
+            assert.ifError(err);
+            assert.strictEqual(metadata, responseMetadata);
+            done();
+          });
+        });
+
+        it('should execute callback with the status of the call', done => {
+          const status = {
+            code: 0,
+            details: 'OK',
+            metadata: new grpc.Metadata(),
+          };
+
+          grpcService.getService_ = () => {
+            return {
+              method(reqOpts, metadata, grpcOpts, callback) {
+                const call = new EventEmitter();
+                setImmediate(() => {
+                  callback(null, RESPONSE);
+                  call.emit('status', status);
+                });
+                return call;
+              },
+            };
+          };
+
+          grpcService.request(
+            PROTO_OPTS,
+            REQ_OPTS,
+            (err, resp, metadata, callStatus) => {
+              assert.ifError(err);
+              assert.strictEqual(callStatus, status);
+              done();
+            }
+          );
+        });
+      });
+    });
+  });
+
+  describe('call', () => {
+    const PROTO_OPTS = {service: 'service', method: 'method'};
+    const REQUEST = {};
+    const RESPONSE = {};
+
+    it('should make the request', done => {
+      grpcService.request = (protoOpts, reqOpts) => {
+        assert.strictEqual(protoOpts, PROTO_OPTS);
+        assert.strictEqual(reqOpts, REQUEST);
+        done();
+      };
+
+      grpcService.call(PROTO_OPTS, REQUEST);
+    });
+
+    it('should resolve with the response', () => {
+      grpcService.request = (protoOpts, reqOpts, callback) => {
+        callback(null, RESPONSE, new grpc.Metadata());
+      };
+
+      return grpcService.call(PROTO_OPTS, REQUEST).then(response => {
+        assert.strictEqual(response, RESPONSE);
+      });
+    });
+
+    it('should reject with the error', () => {
+      const error = new Error('err.');
+
+      grpcService.request = (protoOpts, reqOpts, callback) => {
+        callback(error);
+      };
+
+      return grpcService.call(PROTO_OPTS, REQUEST).then(
+        () => {
+          throw new Error('Should not resolve.');
+        },
+        err => {
+          assert.strictEqual(err, error);
+        }
+      );
+    });
+  });
+
+  describe('callWithMetadata', () => {
+    const PROTO_OPTS = {service: 'service', method: 'method'};
+    const REQUEST = {};
+    const RESPONSE = {};
+
+    it('should resolve with the response and metadata', () => {
+      const metadata = new grpc.Metadata();
+
+      grpcService.request = (protoOpts, reqOpts, callback) => {
+        callback(null, RESPONSE, metadata);
+      };
+
+      return grpcService.callWithMetadata(PROTO_OPTS, REQUEST).then(result => {
+        assert.strictEqual(result.response, RESPONSE);
+        assert.strictEqual(result.metadata, metadata);
+      });
+    });
+
+    it('should resolve with empty metadata if none was received', () => {
+      grpcService.request = (protoOpts, reqOpts, callback) => {
+        callback(null, RESPONSE);
+      };
+
+      return grpcService.callWithMetadata(PROTO_OPTS, REQUEST).then(result => {
+        assert.deepStrictEqual(result.metadata.getMap(), {});
+        assert.deepStrictEqual(result.trailingMetadata.getMap(), {});
+        assert.strictEqual(result.status, undefined);
+      });
+    });
+
+    it('should resolve with the status and trailing metadata', () => {
+      const status = {code: 0, details: 'OK', metadata: new grpc.Metadata()};
+
+      grpcService.request = (protoOpts, reqOpts, callback) => {
+        callback(null, RESPONSE, new grpc.Metadata(), status);
+      };
+
+      return grpcService.callWithMetadata(PROTO_OPTS, REQUEST).then(result => {
+        assert.strictEqual(result.status, status);
+        assert.strictEqual(result.trailingMetadata, status.metadata);
+      });
+    });
+
+    it('should reject with the error', () => {
+      const error = new Error('err.');
+
+      grpcService.request = (protoOpts, reqOpts, callback) => {
+        callback(error);
+      };
+
+      return grpcService.callWithMetadata(PROTO_OPTS, REQUEST).then(
+        () => {
+          throw new Error('Should not resolve.');
+        },
+        err => {
+          assert.strictEqual(err, error);
+        }
+      );
+    });
+  });
+
+  describe('requestStream', () => {
+    let PROTO_OPTS;
+    const REQ_OPTS = {};
+    const GRPC_CREDENTIALS = {};
+    let fakeStream;
+
+    function ProtoService() {}
+
+    beforeEach(() => {
+      PROTO_OPTS = {service: 'service', method: 'method', timeout: 3000};
+      ProtoService.prototype.method = () => {};
+
+      grpcService.grpcCredentials = GRPC_CREDENTIALS;
+      grpcService.baseUrl = 'http://base-url';
+      grpcService.proto = {};
+      grpcService.proto.service = ProtoService;
+
+      grpcService.getService_ = () => {
+        return new ProtoService();
+      };
+
+      fakeStream = new PassThrough({objectMode: true});
+      retryRequestOverride = () => {
+        return fakeStream;
+      };
+    });
+
+    afterEach(() => {
+      retryRequestOverride = null;
+    });
+
+    it('should not run in the gcloud sandbox environment', () => {
+      delete grpcService.grpcCredentials;
+
+      grpcService.getGrpcCredentials_ = () => {
+        throw new Error('Should not be called.');
+      };
+
+      glob.GCLOUD_SANDBOX_ENV = true;
+      grpcService.requestStream();
+      delete glob.GCLOUD_SANDBOX_ENV;
+    });
+
+    describe('getting gRPC credentials', () => {
+      beforeEach(() => {
+        delete grpcService.grpcCredentials;
+      });
+
+      describe('credentials error', () => {
+        const error = new Error('err');
+
+        beforeEach(() => {
+          grpcService.getGrpcCredentials_ = callback => {
+            callback(error);
+          };
+        });
+
+        it('should execute callback with error', done => {
+          grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+            assert.strictEqual(err, error);
+            done();
+          });
+        });
+      });
+
+      describe('credentials success', () => {
+        const authClient = {};
+
+        beforeEach(() => {
+          grpcService.getGrpcCredentials_ = callback => {
+            callback(null, authClient);
+          };
+        });
+
+        it('should make the gRPC request again', done => {
+          grpcService.getService_ = () => {
+            assert.strictEqual(grpcService.grpcCredentials, authClient);
+            setImmediate(done);
+            return new ProtoService();
+          };
+
+          grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', done);
+        });
+      });
+    });
+
+    it('should get the proto service', done => {
+      grpcService.getService_ = protoOpts => {
+        assert.strictEqual(protoOpts, PROTO_OPTS);
+        setImmediate(done);
+        return new ProtoService();
+      };
+
+      grpcService.requestStream(PROTO_OPTS, REQ_OPTS, assert.ifError);
+    });
+
+    it('should set the deadline', done => {
+      const createDeadline = GrpcService.createDeadline_;
+      const fakeDeadline = createDeadline(PROTO_OPTS.timeout);
+
+      GrpcService.createDeadline_ = timeout => {
+        assert.strictEqual(timeout, PROTO_OPTS.timeout);
+        return fakeDeadline;
+      };
+
+      ProtoService.prototype.method = (reqOpts, metadata, grpcOpts) => {
+        assert.strictEqual(grpcOpts.deadline, fakeDeadline);
+
+        GrpcService.createDeadline_ = createDeadline;
+        setImmediate(done);
+
+        return new PassThrough({objectMode: true});
+      };
+
+      retryRequestOverride = (_, retryOpts) => {
+        return retryOpts.request();
+      };
+
+      grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+    });
+
+    it('should pass the grpc metadata with the request', done => {
+      ProtoService.prototype.method = (reqOpts, metadata) => {
+        assert.strictEqual(metadata, grpcService.grpcMetadata);
+        setImmediate(done);
+        return new PassThrough({objectMode: true});
+      };
+
+      retryRequestOverride = (_, retryOpts) => {
+        return retryOpts.request();
+      };
+
+      grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+    });
+
+    it('should pass the per-call metadata with the request', done => {
+      const metadata = {};
+
+      grpcService.getRequestMetadata_ = protoOpts => {
+        assert.strictEqual(protoOpts, PROTO_OPTS);
+        return metadata;
+      };
+
+      ProtoService.prototype.method = (reqOpts, metadata_) => {
+        assert.strictEqual(metadata_, metadata);
+        setImmediate(done);
+        return new PassThrough({objectMode: true});
+      };
+
+      retryRequestOverride = (_, retryOpts) => {
+        return retryOpts.request();
+      };
+
+      grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+    });
+
+    describe('request option decoration', () => {
+      beforeEach(() => {
+        ProtoService.prototype.method = () => {
+          return new PassThrough({objectMode: true});
+        };
+
+        retryRequestOverride = (reqOpts, options) => {
+          return options.request();
+        };
+      });
+
+      describe('requestStream() success', () => {
+        it('should decorate the request', done => {
+          const decoratedRequest = {};
+
+          grpcService.decorateRequest_ = reqOpts => {
+            assert.strictEqual(reqOpts, REQ_OPTS);
+            return decoratedRequest;
+          };
+
+          ProtoService.prototype.method = reqOpts => {
+            assert.strictEqual(reqOpts, decoratedRequest);
+            setImmediate(done);
+            return new PassThrough({objectMode: true});
+          };
+
+          grpcService
+            .requestStream(PROTO_OPTS, REQ_OPTS)
+            .on('error', assert.ifError);
+        });
+      });
+
+      describe('requestStream() error', () => {
+        it('should end stream with a thrown error', done => {
+          const error = new Error('Error.');
+
+          grpcService.decorateRequest_ = () => {
+            throw error;
+          };
+
+          grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+            assert.strictEqual(err, error);
+            done();
+          });
+        });
+      });
+    });
+
+    describe('retry strategy', () => {
+      let retryRequestReqOpts;
+      let retryRequestOptions;
+      let retryStream;
+
+      beforeEach(() => {
+        retryRequestReqOpts = retryRequestOptions = null;
+        retryStream = new PassThrough({objectMode: true});
+
+        retryRequestOverride = (reqOpts, options) => {
+          retryRequestReqOpts = reqOpts;
+          retryRequestOptions = options;
+          return retryStream;
+        };
+      });
+
+      afterEach(() => {
+        retryRequestOverride = null;
+      });
+
+      it('should use retry-request', () => {
+        const reqOpts = Object.assign(
+          {
+            objectMode: true,
+          },
+          REQ_OPTS
+        );
+
+        const response = {code: 503};
+        const shouldRetryRequest = sinon
+          .stub(GrpcService, 'shouldRetryRequest_')
+          .returns(true);
+
+        grpcService.requestStream(PROTO_OPTS, reqOpts);
+
+        assert.strictEqual(retryRequestReqOpts, null);
+        assert.strictEqual(retryRequestOptions.retries, grpcService.maxRetries);
+        assert.strictEqual(retryRequestOptions.currentRetryAttempt, 0);
+        assert.strictEqual(retryRequestOptions.objectMode, true);
+        assert.strictEqual(retryRequestOptions.maxRetryDelay, 0);
+        assert.strictEqual(retryRequestOptions.shouldRetryFn(response), true);
+        assert(shouldRetryRequest.calledWith(response));
+      });
+
+      it('should delay retries with the backoff', done => {
+        const fakeStream = new PassThrough({objectMode: true});
+        const clock = sinon.useFakeTimers();
+        sinon.stub(Math, 'random').returns(0.5);
+
+        let calls = 0;
+        ProtoService.prototype.method = () => {
+          calls++;
+          return calls === 1 ? new PassThrough() : fakeStream;
+        };
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        retryRequestOptions.request();
+        assert.strictEqual(calls, 1);
+
+        retryRequestOptions.shouldRetryFn({code: 503});
+        const delayedStream = retryRequestOptions.request();
+        assert.strictEqual(calls, 1);
+
+        delayedStream.on('response', resp => {
+          assert.deepStrictEqual(resp, GrpcService.GRPC_ERROR_CODE_TO_HTTP[0]);
+          clock.restore();
+          done();
+        });
+
+        clock.tick(2499);
+        assert.strictEqual(calls, 1);
+        clock.tick(1);
+        assert.strictEqual(calls, 2);
+        fakeStream.emit('status', {code: 0});
+      });
+
+      it('should delay retries as long as the server asked for', () => {
+        const clock = sinon.useFakeTimers();
+
+        let calls = 0;
+        ProtoService.prototype.method = () => {
+          calls++;
+          return new PassThrough();
+        };
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        retryRequestOptions.request();
+        retryRequestOptions.shouldRetryFn({
+          code: 503,
+          retryInfo: {retryDelay: {seconds: 3, nanos: 0}},
+        });
+        retryRequestOptions.request();
+
+        clock.tick(2999);
+        assert.strictEqual(calls, 1);
+        clock.tick(1);
+        assert.strictEqual(calls, 2);
+        clock.restore();
+      });
+
+      it('should cancel a delayed retry', () => {
+        const clock = sinon.useFakeTimers();
+
+        let calls = 0;
+        ProtoService.prototype.method = () => {
+          calls++;
+          return new PassThrough();
+        };
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        retryRequestOptions.request();
+        retryRequestOptions.request().cancel();
+        clock.tick(64000);
+        assert.strictEqual(calls, 1);
+        clock.restore();
+      });
+
+      describe('making attempts', () => {
+        let attempts: number;
+        let errors: Array<{code: number}>;
+
+        beforeEach(() => {
+          attempts = 0;
+          errors = [];
+          retryRequestOverride = null;
+
+          ProtoService.prototype.method = () => {
+            const grpcStream = new PassThrough({objectMode: true});
+            const error = errors[attempts++];
+
+            setImmediate(() => {
+              grpcStream.emit('metadata', new grpc.Metadata());
+              if (error) {
+                grpcStream.emit('error', error);
+                return;
+              }
+              grpcStream.end({attempts});
+            });
+
+            return grpcStream;
+          };
+        });
+
+        it('should retry an error with the backoff', done => {
+          const protoOpts = Object.assign({}, PROTO_OPTS, {
+            retryOpts: {initialRetryDelayMillis: 1, jitter: 'none'},
+          });
+          const messages: Array<{}> = [];
+          errors = [{code: grpc.status.UNAVAILABLE}];
+
+          grpcService
+            .requestStream(protoOpts, {objectMode: true})
+            .on('error', done)
+            .on('data', message => messages.push(message))
+            .on('end', () => {
+              assert.deepStrictEqual(messages, [{attempts: 2}]);
+              done();
+            });
+        });
+
+        it('should not retry an error that is not retryable', done => {
+          errors = [{code: grpc.status.NOT_FOUND}];
+
+          grpcService
+            .requestStream(PROTO_OPTS, {objectMode: true})
+            .on('error', err => {
+              assert.strictEqual(err.code, 404);
+              assert.strictEqual(attempts, 1);
+              done();
+            });
+        });
+
+        it('should wait as long as the server asked for', done => {
+          const protoOpts = Object.assign({}, PROTO_OPTS, {
+            retryOpts: {initialRetryDelayMillis: 1, jitter: 'none'},
+          });
+          const start = Date.now();
+          errors = [{code: grpc.status.RESOURCE_EXHAUSTED}];
+
+          getStatusDetailsOverride = () => {
+            return {retryInfo: {retryDelay: {seconds: 0, nanos: 50000000}}};
+          };
+
+          grpcService
+            .requestStream(protoOpts, {objectMode: true})
+            .on('error', done)
+            .on('data', message => {
+              assert.deepStrictEqual(message, {attempts: 2});
+              assert(Date.now() - start >= 50);
+              done();
+            });
+        });
+
+        it('should not retry when the server delay passes the budget', done => {
+          const protoOpts = Object.assign({}, PROTO_OPTS, {
+            retryOpts: {
+              initialRetryDelayMillis: 1,
+              jitter: 'none',
+              maxRetryDurationMillis: 500,
+            },
+          });
+          errors = [{code: grpc.status.RESOURCE_EXHAUSTED}];
+
+          getStatusDetailsOverride = () => {
+            return {retryInfo: {retryDelay: {seconds: 1, nanos: 0}}};
+          };
+
+          grpcService
+            .requestStream(protoOpts, {objectMode: true})
+            .on('error', err => {
+              assert.strictEqual(err.code, 429);
+              assert.strictEqual(attempts, 1);
+              done();
+            });
+        });
+
+        it('should not retry an error past the retry budget', done => {
+          const protoOpts = Object.assign({}, PROTO_OPTS, {
+            retryOpts: {
+              initialRetryDelayMillis: 1000,
+              jitter: 'none',
+              maxRetryDurationMillis: 500,
+            },
+          });
+          errors = [{code: grpc.status.UNAVAILABLE}];
+
+          grpcService
+            .requestStream(protoOpts, {objectMode: true})
+            .on('error', err => {
+              assert.strictEqual(err.code, 503);
+              assert.strictEqual(attempts, 1);
+              done();
+            });
+        });
+
+        it('should not retry an error past the total timeout', done => {
+          const protoOpts = Object.assign({}, PROTO_OPTS, {
+            totalTimeout: 100,
+            retryOpts: {initialRetryDelayMillis: 1000, jitter: 'none'},
+          });
+          errors = [{code: grpc.status.UNAVAILABLE}];
+
+          grpcService
+            .requestStream(protoOpts, {objectMode: true})
+            .on('error', err => {
+              assert(err instanceof GrpcService.TotalTimeoutError);
+              assert.strictEqual(err.cause.code, 503);
+              assert.strictEqual(attempts, 1);
+              done();
+            });
+        });
+      });
+
+      describe('reporting the response', () => {
+        let grpcStream;
+        let request;
+
+        beforeEach(() => {
+          grpcStream = new PassThrough({objectMode: true});
+          ProtoService.prototype.method = () => grpcStream;
+
+          retryRequestOverride = (reqOpts, options) => {
+            request = options.request();
+            return new PassThrough({objectMode: true});
+          };
+
+          grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+        });
+
+        it('should report the first message as the response', done => {
+          const message = {};
+          let response;
+
+          request
+            .on('response', resp => {
+              response = resp;
+              assert.deepStrictEqual(
+                resp,
+                GrpcService.GRPC_ERROR_CODE_TO_HTTP[0]
+              );
+            })
+            .on('data', data => {
+              assert(response);
+              assert.strictEqual(data, message);
+              done();
+            });
+
+          grpcStream.emit('metadata', new grpc.Metadata());
+          assert.strictEqual(response, undefined);
+          grpcStream.write(message);
+        });
+
+        it('should report an OK status as the response', done => {
+          request.on('response', resp => {
+            assert.deepStrictEqual(
+              resp,
+              GrpcService.GRPC_ERROR_CODE_TO_HTTP[0]
+            );
+            done();
+          });
+
+          grpcStream.emit('status', {code: 0});
+        });
+
+        it('should report an error after the metadata as the response', done => {
+          request.on('error', util.noop).on('response', resp => {
+            assert.strictEqual(resp.code, 503);
+            done();
+          });
+
+          grpcStream.emit('metadata', new grpc.Metadata());
+          grpcStream.emit('error', {code: grpc.status.UNAVAILABLE});
+        });
+
+        it('should not pass on the error of a retried attempt', done => {
+          request
+            .on('error', () => {
+              done(new Error('Should not be called.'));
+            })
+            .on('response', () => {
+              // retry-request cancels the attempt it retries.
+              request.cancel();
+              setImmediate(done);
+            });
+
+          grpcStream.emit('error', {code: grpc.status.UNAVAILABLE});
+        });
+
+        it('should pass on an error without a status', done => {
+          const error = new Error('Error.');
+
+          request
+            .on('response', () => {
+              done(new Error('Should not be called.'));
+            })
+            .on('error', err => {
+              assert.strictEqual(err, error);
+              done();
+            });
+
+          grpcStream.emit('error', error);
+        });
+      });
+
+      it('should emit the metadata and status of the call', done => {
+        const fakeStream = new PassThrough({objectMode: true});
+        const responseMetadata = new grpc.Metadata();
+        const status = {code: 0, details: 'OK', metadata: new grpc.Metadata()};
+
+        ProtoService.prototype.method = () => {
+          return fakeStream;
+        };
+
+        retryRequestOverride = (reqOpts, options) => {
+          return options.request();
+        };
+
+        const requestStream = grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        requestStream.on('metadata', metadata => {
+          assert.strictEqual(metadata, responseMetadata);
+
+          requestStream.on('status', callStatus => {
+            assert.strictEqual(callStatus, status);
+            done();
+          });
+
+          fakeStream.emit('status', status);
+        });
+
+        fakeStream.emit('metadata', responseMetadata);
+      });
+
+      it('should forward `request` events', done => {
+        const requestStream = grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        requestStream.on('request', () => {
+          done();
+        });
+
+        retryStream.emit('request');
+      });
+
+      it('should emit the response error', done => {
+        const grpcError500 = {code: 2};
+        const requestStream = grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        requestStream.destroy = err => {
+          assert(err instanceof UnknownError);
+          assert.strictEqual(err.code, 500);
+          done();
+        };
+
+        retryStream.emit('error', grpcError500);
+      });
+
+      it('should use the gRPC status code if configured to', done => {
+        grpcService.useGrpcStatusCodes = true;
+        const requestStream = grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        requestStream.destroy = err => {
+          assert.strictEqual(err.code, grpc.status.UNKNOWN);
+          assert.strictEqual(err.httpCode, 500);
+          done();
+        };
+
+        retryStream.emit('error', {code: grpc.status.UNKNOWN});
+      });
+    });
+
+    describe('gRPC service config', () => {
+      let retryRequestOptions;
+
+      beforeEach(() => {
+        grpcService.grpcServiceConfig = {
+          methodConfig: [
+            {
+              name: [{service: 'service', method: 'Method'}],
+              timeout: '10s',
+              retryPolicy: {
+                maxAttempts: 2,
+                initialBackoff: '0.1s',
+                maxBackoff: '1s',
+                backoffMultiplier: 2,
+                retryableStatusCodes: ['UNAVAILABLE'],
+              },
+            },
+          ],
+        };
+
+        retryRequestOverride = (reqOpts, options) => {
+          retryRequestOptions = options;
+          return fakeStream;
+        };
+      });
+
+      it('should use the timeout of the method config', done => {
+        const createDeadline = GrpcService.createDeadline_;
+        delete PROTO_OPTS.timeout;
+
+        GrpcService.createDeadline_ = timeout => {
+          assert.strictEqual(timeout, 10000);
+          GrpcService.createDeadline_ = createDeadline;
+          done();
+        };
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+      });
+
+      it('should destroy the stream with an invalid method config', done => {
+        grpcService.grpcServiceConfig.methodConfig[0].timeout = '10';
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err.message, 'Invalid duration: "10".');
+          done();
+        });
+      });
+
+      it('should use the retry policy of the method config', () => {
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+        assert.strictEqual(retryRequestOptions.retries, 2);
+      });
+
+      it('should retry a call to a server with the retry policy', done => {
+        const server = new grpc.Server();
+        let attempts = 0;
+
+        server.addService(getHealthClient().service, {
+          watch(call) {
+            call.sendMetadata(new grpc.Metadata());
+            if (attempts++ === 0) {
+              call.emit('error', {
+                code: grpc.status.UNAVAILABLE,
+                details: 'Unavailable.',
+                metadata: new grpc.Metadata(),
+              });
+              return;
+            }
+            call.write({status: 'SERVING'});
+            call.end();
+          },
+        });
+
+        delete grpcService.getService_;
+        retryRequestOverride = null;
+        grpcService.grpcServiceConfig = {
+          methodConfig: [
+            {
+              name: [{service: 'grpc.health.v1.Health'}],
+              retryPolicy: {
+                maxAttempts: 3,
+                initialBackoff: '0.001s',
+                maxBackoff: '0.001s',
+                backoffMultiplier: 2,
+                retryableStatusCodes: ['UNAVAILABLE'],
+              },
+            },
+          ],
+        };
+
+        server.bindAsync(
+          'localhost:0',
+          grpc.ServerCredentials.createInsecure(),
+          (err, port) => {
+            server.start();
+            grpcService.baseUrl = `localhost:${port}`;
+            grpcService.grpcCredentials = grpc.credentials.createInsecure();
+
+            const finish = (err?: Error) => {
+              server.forceShutdown();
+              grpcService.close().then(() => done(err), done);
+            };
+            const statuses: string[] = [];
+
+            assert.ifError(err);
+            grpcService
+              .watchHealth('')
+              .on('error', finish)
+              .on('data', status => statuses.push(status))
+              .on('end', () => {
+                try {
+                  assert.deepStrictEqual(statuses, ['SERVING']);
+                  assert.strictEqual(attempts, 2);
+                  finish();
+                } catch (e) {
+                  finish(e);
+                }
+              });
+          }
+        );
+      });
+
+      it('should report a retryable error as the response', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        ProtoService.prototype.method = () => grpcStream;
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        retryRequestOptions
+          .request()
+          .on('error', util.noop)
+          .on('response', resp => {
+            assert.strictEqual(resp.code, 503);
+            assert.strictEqual(retryRequestOptions.shouldRetryFn(resp), true);
+            done();
+          });
+
+        grpcStream.emit('error', {code: 14});
+      });
+
+      it('should report a non-retryable error as the response', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        ProtoService.prototype.method = () => grpcStream;
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        const error = {code: 13};
+        let response;
+
+        retryRequestOptions
+          .request()
+          .on('response', resp => {
+            response = resp;
+            assert.strictEqual(retryRequestOptions.shouldRetryFn(resp), false);
+          })
+          .on('error', err => {
+            assert(response);
+            assert.strictEqual(err, error);
+            done();
+          });
+
+        grpcStream.emit('error', error);
+      });
+
+      it('should forward the response and later errors', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        ProtoService.prototype.method = () => grpcStream;
+        const error = {code: 14};
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+
+        retryRequestOptions
+          .request()
+          .on('response', resp => {
+            assert.strictEqual(resp.code, 200);
+          })
+          .on('error', err => {
+            assert.strictEqual(err, error);
+            done();
+          });
+
+        grpcStream.write({});
+        grpcStream.emit('error', error);
+      });
+
+      it('should cancel the streaming call', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        Object.assign(grpcStream, {cancel: done});
+        ProtoService.prototype.method = () => grpcStream;
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+        retryRequestOptions.request().cancel();
+      });
+    });
+
+    describe('timeouts', () => {
+      it('should give every attempt its own deadline', done => {
+        sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {attemptTimeout: 10});
+
+        ProtoService.prototype.method = (reqOpts, metadata, grpcOpts) => {
+          assert.strictEqual(grpcOpts.deadline.getTime(), 10);
+          done();
+          return new PassThrough({objectMode: true});
+        };
+
+        retryRequestOverride = (_, retryOpts) => {
+          return retryOpts.request();
+        };
+
+        grpcService.requestStream(protoOpts, REQ_OPTS);
+      });
+
+      it('should destroy the stream once the total timeout ran out', done => {
+        const clock = sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {totalTimeout: 100});
+        const retryStream = new PassThrough({objectMode: true});
+
+        retryRequestOverride = () => {
+          return retryStream;
+        };
+
+        grpcService.requestStream(protoOpts, REQ_OPTS).on('error', err => {
+          assert(err instanceof GrpcService.TotalTimeoutError);
+          assert.strictEqual(err.cause.code, 504);
+          done();
+        });
+
+        clock.tick(100);
+        retryStream.emit('error', {code: 4});
+      });
+    });
+
+    describe('idempotency', () => {
+      it('should report errors of a non-idempotent request', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        const protoOpts = Object.assign({}, PROTO_OPTS, {idempotent: false});
+        let retryRequestOptions;
+
+        ProtoService.prototype.method = () => grpcStream;
+        retryRequestOverride = (reqOpts, options) => {
+          retryRequestOptions = options;
+          return fakeStream;
+        };
+
+        grpcService.requestStream(protoOpts, REQ_OPTS);
+
+        assert.strictEqual(retryRequestOptions.noResponseRetries, 0);
+
+        retryRequestOptions
+          .request()
+          .on('error', util.noop)
+          .on('response', resp => {
+            assert.strictEqual(resp.code, 500);
+            assert.strictEqual(retryRequestOptions.shouldRetryFn(resp), false);
+            done();
+          });
+
+        grpcStream.emit('error', {code: 13});
+      });
+    });
+
+    describe('cancellation', () => {
+      let signal: FakeAbortSignal;
+
+      beforeEach(() => {
+        signal = new FakeAbortSignal();
+        PROTO_OPTS.signal = signal;
+      });
+
+      it('should not make a request with an aborted signal', done => {
+        signal.abort();
+
+        grpcService.getService_ = () => {
+          throw new Error('Should not be called.');
+        };
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 499);
+          done();
+        });
+      });
+
+      it('should stop waiting for the gRPC credentials', done => {
+        delete grpcService.grpcCredentials;
+        grpcService.getGrpcCredentials_ = util.noop;
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 499);
+          done();
+        });
+
+        signal.abort();
+      });
+
+      it('should abort the retry stream', done => {
+        const retryStream = Object.assign(new PassThrough({objectMode: true}), {
+          abort: sinon.spy(),
+        });
+        let retryRequestOptions;
+
+        retryRequestOverride = (reqOpts, options) => {
+          retryRequestOptions = options;
+          return retryStream;
+        };
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 499);
+          assert.strictEqual(retryStream.abort.callCount, 1);
+
+          // A retry scheduled before the cancellation is not made.
+          grpcService.getService_ = () => {
+            throw new Error('Should not be called.');
+          };
+          retryRequestOptions.request();
+
+          // Errors of the cancelled call are ignored.
+          retryStream.emit('error', new Error('Cancelled.'));
+          done();
+        });
+
+        signal.abort();
+      });
+    });
+
+    describe('idle timeout', () => {
+      it('should fail once no message was received in time', done => {
+        const clock = sinon.useFakeTimers();
+        const protoOpts = Object.assign({}, PROTO_OPTS, {idleTimeout: 100});
+        const retryStream = Object.assign(new PassThrough({objectMode: true}), {
+          abort: sinon.spy(),
+        });
+
+        retryRequestOverride = () => {
+          return retryStream;
+        };
+
+        grpcService.requestStream(protoOpts, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 504);
+          assert.strictEqual(err.message, 'No message received for 100ms.');
+          assert.strictEqual(retryStream.abort.callCount, 1);
+
+          // Errors of the cancelled call are ignored.
+          retryStream.emit('error', new Error('Cancelled.'));
+          done();
+        });
+
+        clock.tick(100);
+      });
+    });
+
+    describe('resumable streams', () => {
+      let protoOpts;
+      let retryStreams: PassThrough[];
+      let requests: Array<{}>;
+
+      beforeEach(() => {
+        protoOpts = Object.assign({}, PROTO_OPTS, {
+          resumeRequest(lastMessage, reqOpts) {
+            return Object.assign({}, reqOpts, {offset: lastMessage.offset});
+          },
+        });
+        retryStreams = [];
+        requests = [];
+
+        grpcService.decorateRequest_ = reqOpts => {
+          requests.push(reqOpts);
+          return reqOpts;
+        };
+
+        retryRequestOverride = () => {
+          const retryStream = new PassThrough({objectMode: true});
+          retryStreams.push(retryStream);
           return retryStream;
         };
       });
 
-      afterEach(() => {
-        retryRequestOverride = null;
+      it('should resume from the last message received', done => {
+        const messages: Array<{}> = [];
+
+        grpcService
+          .requestStream(protoOpts, REQ_OPTS)
+          .on('error', done)
+          .on('data', message => {
+            messages.push(message);
+          })
+          .on('end', () => {
+            assert.deepStrictEqual(messages, [{offset: 1}, {offset: 2}]);
+            assert.deepStrictEqual(requests, [REQ_OPTS, {offset: 1}]);
+            done();
+          });
+
+        retryStreams[0].write({offset: 1});
+
+        setImmediate(() => {
+          retryStreams[0].emit('error', {code: 14});
+
+          assert.strictEqual(retryStreams.length, 2);
+          retryStreams[1].end({offset: 2});
+        });
+      });
+
+      it('should not resume before a message was received', done => {
+        grpcService.requestStream(protoOpts, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 503);
+          assert.strictEqual(retryStreams.length, 1);
+          done();
+        });
+
+        retryStreams[0].emit('error', {code: 14});
+      });
+
+      it('should not resume on a non-retryable error', done => {
+        grpcService
+          .requestStream(protoOpts, REQ_OPTS)
+          .on('data', util.noop)
+          .on('error', err => {
+            assert.strictEqual(err.code, 400);
+            assert.strictEqual(retryStreams.length, 1);
+            done();
+          });
+
+        retryStreams[0].write({offset: 1});
+
+        setImmediate(() => {
+          retryStreams[0].emit('error', {code: 3});
+        });
+      });
+
+      it('should not resume without a resume request', done => {
+        protoOpts.resumeRequest = () => {};
+
+        grpcService
+          .requestStream(protoOpts, REQ_OPTS)
+          .on('data', util.noop)
+          .on('error', err => {
+            assert.strictEqual(err.code, 503);
+            assert.strictEqual(retryStreams.length, 1);
+            done();
+          });
+
+        retryStreams[0].write({offset: 1});
+
+        setImmediate(() => {
+          retryStreams[0].emit('error', {code: 14});
+        });
+      });
+
+      it('should destroy the stream with a thrown error', done => {
+        const error = new Error('Error.');
+
+        protoOpts.resumeRequest = () => {
+          throw error;
+        };
+
+        grpcService
+          .requestStream(protoOpts, REQ_OPTS)
+          .on('data', util.noop)
+          .on('error', err => {
+            assert.strictEqual(err, error);
+            done();
+          });
+
+        retryStreams[0].write({offset: 1});
+
+        setImmediate(() => {
+          retryStreams[0].emit('error', {code: 14});
+        });
+      });
+
+      it('should resume on the retryable codes of the method', done => {
+        grpcService.getMethodSettings_ = () => ({retryableCodes: [13]});
+
+        grpcService
+          .requestStream(protoOpts, REQ_OPTS)
+          .on('data', () => {
+            if (retryStreams.length === 2) {
+              done();
+            }
+          })
+          .on('error', done);
+
+        retryStreams[0].write({offset: 1});
+
+        setImmediate(() => {
+          retryStreams[0].emit('error', {code: 13});
+          retryStreams[1].write({offset: 2});
+        });
+      });
+    });
+
+    describe('interceptors', () => {
+      it('should make the request intercepted by interceptors', done => {
+        const reqOpts = {};
+
+        grpcService.addGrpcInterceptor({
+          request(context) {
+            assert.strictEqual(context.type, 'serverStream');
+            context.reqOpts = reqOpts;
+          },
+        });
+
+        ProtoService.prototype.method = reqOpts_ => {
+          assert.strictEqual(reqOpts_, reqOpts);
+          setImmediate(done);
+          return new PassThrough({objectMode: true});
+        };
+
+        retryRequestOverride = (_, retryOpts) => {
+          return retryOpts.request();
+        };
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+      });
+
+      it('should intercept every message', done => {
+        grpcService.addGrpcInterceptor({
+          response(message, context) {
+            assert.strictEqual(context.type, 'serverStream');
+            return {intercepted: message};
+          },
+        });
+
+        const messages: Array<{}> = [];
+
+        grpcService
+          .requestStream(PROTO_OPTS, REQ_OPTS)
+          .on('error', done)
+          .on('data', message => messages.push(message))
+          .on('end', () => {
+            assert.deepStrictEqual(messages, [
+              {intercepted: 'a'},
+              {intercepted: 'b'},
+            ]);
+            done();
+          });
+
+        fakeStream.write('a');
+        fakeStream.end('b');
+      });
+
+      it('should destroy the stream if a response hook throws', done => {
+        const error = new Error('Error.');
+
+        grpcService.addGrpcInterceptor({
+          response() {
+            throw error;
+          },
+        });
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err, error);
+          done();
+        });
+
+        fakeStream.write('a');
+      });
+
+      it('should intercept the response error', done => {
+        const interceptedError = new Error('Intercepted.');
+
+        grpcService.addGrpcInterceptor({
+          error(err) {
+            assert.strictEqual(err.code, 500);
+            return interceptedError;
+          },
+        });
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err, interceptedError);
+          done();
+        });
+
+        fakeStream.emit('error', {code: 2});
+      });
+
+      it('should destroy the stream with an error an error hook throws', done => {
+        const error = new Error('Error.');
+
+        grpcService.addGrpcInterceptor({
+          error() {
+            throw error;
+          },
+        });
+
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err, error);
+          done();
+        });
+
+        fakeStream.emit('error', {code: 2});
+      });
+    });
+  });
+
+  describe('requestWritableStream', () => {
+    let PROTO_OPTS;
+    const REQ_OPTS = {};
+    const GRPC_CREDENTIALS = {};
+
+    function ProtoService() {}
+
+    beforeEach(() => {
+      PROTO_OPTS = {service: 'service', method: 'method', timeout: 3000};
+      ProtoService.prototype.method = () => {};
+
+      grpcService.grpcCredentials = GRPC_CREDENTIALS;
+      grpcService.baseUrl = 'http://base-url';
+      grpcService.proto = {};
+      grpcService.proto.service = ProtoService;
+
+      grpcService.getService_ = () => {
+        return new ProtoService();
+      };
+    });
+
+    it('should not run in the gcloud sandbox environment', () => {
+      delete grpcService.grpcCredentials;
+
+      grpcService.getGrpcCredentials_ = () => {
+        throw new Error('Should not be called.');
+      };
+
+      glob.GCLOUD_SANDBOX_ENV = true;
+      grpcService.requestWritableStream({});
+
+      delete glob.GCLOUD_SANDBOX_ENV;
+    });
+
+    it('should get the proto service', done => {
+      ProtoService.prototype.method = () => {
+        // tslint:disable-next-line:no-any
+        return (duplexify as any).obj();
+      };
+      grpcService.getService_ = protoOpts => {
+        assert.strictEqual(protoOpts, PROTO_OPTS);
+        setImmediate(done);
+        return new ProtoService();
+      };
+
+      grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+    });
+
+    it('should set the deadline', done => {
+      const createDeadline = GrpcService.createDeadline_;
+      const fakeDeadline = createDeadline(PROTO_OPTS.timeout);
+
+      GrpcService.createDeadline_ = timeout => {
+        assert.strictEqual(timeout, PROTO_OPTS.timeout);
+        return fakeDeadline;
+      };
+
+      ProtoService.prototype.method = (reqOpts, metadata, grpcOpts) => {
+        assert.strictEqual(grpcOpts.deadline, fakeDeadline);
+
+        GrpcService.createDeadline_ = createDeadline;
+        setImmediate(done);
+
+        return new PassThrough({objectMode: true});
+      };
+
+      retryRequestOverride = (_, retryOpts) => {
+        return retryOpts.request();
+      };
+
+      grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+    });
+
+    it('should use the earliest deadline of the timeouts', done => {
+      sinon.useFakeTimers();
+      const protoOpts = Object.assign({}, PROTO_OPTS, {
+        timeout: 300,
+        attemptTimeout: 100,
+        totalTimeout: 200,
+      });
+
+      ProtoService.prototype.method = (reqOpts, metadata, grpcOpts) => {
+        assert.strictEqual(grpcOpts.deadline.getTime(), 100);
+        done();
+        // tslint:disable-next-line:no-any
+        return (duplexify as any).obj();
+      };
+
+      grpcService.requestWritableStream(protoOpts, REQ_OPTS);
+    });
+
+    it('should pass the grpc metadata with the request', done => {
+      ProtoService.prototype.method = (reqOpts, metadata) => {
+        assert.strictEqual(metadata, grpcService.grpcMetadata);
+        setImmediate(done);
+        return new PassThrough({objectMode: true});
+      };
+
+      retryRequestOverride = (_, retryOpts) => {
+        return retryOpts.request();
+      };
+
+      grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+    });
+
+    it('should pass the per-call metadata with the request', done => {
+      const metadata = {};
+
+      grpcService.getRequestMetadata_ = protoOpts => {
+        assert.strictEqual(protoOpts, PROTO_OPTS);
+        return metadata;
+      };
+
+      ProtoService.prototype.method = (reqOpts, metadata_) => {
+        assert.strictEqual(metadata_, metadata);
+        setImmediate(done);
+        return new PassThrough({objectMode: true});
+      };
+
+      grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+    });
+
+    describe('getting gRPC credentials', () => {
+      beforeEach(() => {
+        delete grpcService.grpcCredentials;
+      });
+
+      describe('grpcCredentials error', () => {
+        const error = new Error('err');
+
+        beforeEach(() => {
+          grpcService.getGrpcCredentials_ = callback => {
+            setImmediate(() => {
+              callback(error);
+            });
+          };
+        });
+
+        it('should execute callback with error', done => {
+          grpcService
+            .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+            .on('error', err => {
+              assert.strictEqual(err, error);
+              done();
+            });
+        });
+      });
+
+      describe('grpcCredentials success', () => {
+        const authClient = {};
+
+        beforeEach(() => {
+          grpcService.getGrpcCredentials_ = callback => {
+            callback(null, authClient);
+          };
+        });
+
+        it('should make the gRPC request again', done => {
+          // tslint:disable-next-line:no-any
+          const stream = (duplexify as any).obj();
+          ProtoService.prototype.method = () => {
+            return stream;
+          };
+          grpcService.getService_ = () => {
+            assert.strictEqual(grpcService.grpcCredentials, authClient);
+            setImmediate(done);
+            return new ProtoService();
+          };
+
+          grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+        });
+      });
+    });
+
+    describe('request option decoration', () => {
+      beforeEach(() => {
+        ProtoService.prototype.method = () => {
+          return new PassThrough({objectMode: true});
+        };
+
+        retryRequestOverride = (reqOpts, options) => {
+          return options.request();
+        };
+      });
+
+      describe('requestWritableStream() success', () => {
+        it('should decorate the request', done => {
+          const decoratedRequest = {};
+
+          grpcService.decorateRequest_ = reqOpts => {
+            assert.strictEqual(reqOpts, REQ_OPTS);
+            return decoratedRequest;
+          };
+
+          ProtoService.prototype.method = reqOpts => {
+            assert.strictEqual(reqOpts, decoratedRequest);
+            setImmediate(done);
+            return new PassThrough({objectMode: true});
+          };
+
+          grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+        });
+      });
+
+      describe('requestWritableStream() error', () => {
+        const error = new Error('Error.');
+
+        it('should end stream with a thrown error', done => {
+          grpcService.decorateRequest_ = () => {
+            throw error;
+          };
+
+          grpcService
+            .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+            .on('error', err => {
+              assert.strictEqual(err, error);
+              done();
+            });
+        });
+      });
+    });
+
+    describe('cancellation', () => {
+      let signal: FakeAbortSignal;
+
+      beforeEach(() => {
+        signal = new FakeAbortSignal();
+        PROTO_OPTS.signal = signal;
+      });
+
+      it('should not make a request with an aborted signal', done => {
+        signal.abort();
+
+        grpcService.getService_ = () => {
+          throw new Error('Should not be called.');
+        };
+
+        grpcService
+          .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+          .on('error', err => {
+            assert.strictEqual(err.code, 499);
+            done();
+          });
+      });
+
+      it('should stop waiting for the gRPC credentials', done => {
+        delete grpcService.grpcCredentials;
+        grpcService.getGrpcCredentials_ = util.noop;
+
+        grpcService
+          .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+          .on('error', err => {
+            assert.strictEqual(err.code, 499);
+            done();
+          });
+
+        signal.abort();
+      });
+
+      it('should cancel the gRPC stream', done => {
+        // tslint:disable-next-line:no-any
+        const grpcStream = (duplexify as any).obj();
+        grpcStream.cancel = sinon.spy();
+        ProtoService.prototype.method = () => grpcStream;
+
+        grpcService
+          .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+          .on('error', err => {
+            assert.strictEqual(err.code, 499);
+            assert.strictEqual(grpcStream.cancel.callCount, 1);
+
+            // Errors of the cancelled call are ignored.
+            grpcStream.emit('error', new Error('Cancelled.'));
+            done();
+          });
+
+        signal.abort();
+      });
+    });
+
+    describe('flow control', () => {
+      let grpcStream: PassThrough;
+
+      beforeEach(() => {
+        grpcStream = new PassThrough({objectMode: true});
+        ProtoService.prototype.method = () => grpcStream;
+      });
+
+      it('should write to the call without limits', () => {
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+        assert.strictEqual(stream.flowControl, undefined);
+      });
+
+      it('should apply the flow control of the request', done => {
+        PROTO_OPTS.flowControl = {maxOutstandingMessages: 1};
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+
+        assert(stream.flowControl instanceof FlowControlledWritable);
+        assert.deepStrictEqual(stream.flowControl.settings, {
+          maxOutstandingMessages: 1,
+        });
+
+        grpcStream.on('data', message => {
+          assert.strictEqual(message, 'a');
+          done();
+        });
+
+        stream.write('a');
+      });
+
+      it('should override the flow control of the service', () => {
+        grpcService.flowControl = {
+          maxOutstandingMessages: 1,
+          maxOutstandingBytes: 10,
+        };
+        PROTO_OPTS.flowControl = {maxOutstandingMessages: 2};
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+
+        assert.deepStrictEqual(stream.flowControl.settings, {
+          maxOutstandingMessages: 2,
+          maxOutstandingBytes: 10,
+        });
+      });
+
+      it('should measure the serialized messages', done => {
+        // The call never reports the message sent.
+        const grpcStream = new Duplex({
+          objectMode: true,
+          read: util.noop,
+          write: util.noop,
+        });
+        ProtoService.prototype.method = () => grpcStream;
+        ProtoService.prototype.method.requestSerialize = message => {
+          return Buffer.from(JSON.stringify(message));
+        };
+        PROTO_OPTS.flowControl = {maxOutstandingBytes: 100};
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+
+        stream.write({a: 1}, () => {
+          assert.strictEqual(stream.flowControl.outstandingBytes, 7);
+          done();
+        });
+      });
+
+      it('should not serialize messages without a byte limit', done => {
+        ProtoService.prototype.method.requestSerialize = () => {
+          throw new Error('Should not be called.');
+        };
+        PROTO_OPTS.flowControl = {maxOutstandingMessages: 10};
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+
+        stream.write({a: 1}, () => {
+          assert.strictEqual(stream.flowControl.outstandingBytes, 0);
+          done();
+        });
+      });
+
+      it('should set the high water mark of the stream', () => {
+        PROTO_OPTS.flowControl = {highWaterMark: 2};
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+        assert.strictEqual(stream.writableHighWaterMark, 2);
+      });
+    });
+
+    describe('stream success', () => {
+      const authClient = {};
+
+      beforeEach(() => {
+        delete grpcService.grpcCredentials;
+        grpcService.getGrpcCredentials_ = callback => {
+          callback(null, authClient);
+        };
+        sinon.spy(GrpcService, 'decorateStatus_');
+      });
+
+      it('should emit response', done => {
+        // tslint:disable-next-line:no-any
+        const stream = (duplexify as any).obj();
+        ProtoService.prototype.method = () => {
+          return stream;
+        };
+        grpcService.getService_ = () => {
+          assert.strictEqual(grpcService.grpcCredentials, authClient);
+          return new ProtoService();
+        };
+
+        grpcService
+          .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+          .on('response', status => {
+            assert.strictEqual(status, 'foo');
+            assert.strictEqual(GrpcService.decorateStatus_.callCount, 1);
+            assert(GrpcService.decorateStatus_.calledWith('foo'));
+            GrpcService.decorateStatus_.restore();
+            done();
+          })
+          .on('error', done);
+
+        setImmediate(() => {
+          stream.emit('status', 'foo');
+        });
+      });
+
+      it('should emit the metadata and status of the call', done => {
+        // tslint:disable-next-line:no-any
+        const stream = (duplexify as any).obj();
+        const responseMetadata = new grpc.Metadata();
+        const status = {code: 0, details: 'OK', metadata: new grpc.Metadata()};
+        ProtoService.prototype.method = () => {
+          return stream;
+        };
+        grpcService.getService_ = () => {
+          return new ProtoService();
+        };
+
+        const requestStream = grpcService.requestWritableStream(
+          PROTO_OPTS,
+          REQ_OPTS
+        );
+
+        requestStream
+          .on('metadata', metadata => {
+            assert.strictEqual(metadata, responseMetadata);
+          })
+          .on('status', callStatus => {
+            assert.strictEqual(callStatus, status);
+            GrpcService.decorateStatus_.restore();
+            done();
+          })
+          .on('error', done);
+
+        setImmediate(() => {
+          stream.emit('metadata', responseMetadata);
+          stream.emit('status', status);
+        });
+      });
+    });
+
+    describe('interceptors', () => {
+      it('should make the request intercepted by interceptors', done => {
+        const reqOpts = {};
+
+        grpcService.addGrpcInterceptor({
+          request(context) {
+            assert.strictEqual(context.type, 'clientStream');
+            context.reqOpts = reqOpts;
+          },
+        });
+
+        ProtoService.prototype.method = reqOpts_ => {
+          assert.strictEqual(reqOpts_, reqOpts);
+          setImmediate(done);
+          return new PassThrough({objectMode: true});
+        };
+
+        grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+      });
+
+      it('should intercept every message', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        ProtoService.prototype.method = () => grpcStream;
+
+        grpcService.addGrpcInterceptor({
+          response(message) {
+            return {intercepted: message};
+          },
+        });
+
+        grpcService
+          .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+          .on('error', done)
+          .on('data', message => {
+            assert.deepStrictEqual(message, {intercepted: 'a'});
+            done();
+          });
+
+        grpcStream.push('a');
+      });
+    });
+
+    describe('stream error', () => {
+      const authClient = {};
+
+      beforeEach(() => {
+        delete grpcService.grpcCredentials;
+        grpcService.getGrpcCredentials_ = callback => {
+          callback(null, authClient);
+        };
+      });
+
+      it('should emit a decorated error', done => {
+        // tslint:disable-next-line:no-any
+        const grpcStream = (duplexify as any).obj();
+        ProtoService.prototype.method = () => {
+          return grpcStream;
+        };
+        grpcService.getService_ = () => {
+          assert.strictEqual(grpcService.grpcCredentials, authClient);
+          return new ProtoService();
+        };
+
+        const error = new Error('Error.');
+        const expectedDecoratedError = new Error('Decorated error.');
+
+        sinon.stub(GrpcService, 'decorateError_').callsFake(() => {
+          return expectedDecoratedError;
+        });
+
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+
+        stream.on('error', err => {
+          assert.strictEqual(err, expectedDecoratedError);
+          assert.strictEqual(GrpcService.decorateError_.callCount, 1);
+          assert(GrpcService.decorateError_.calledWith(error));
+          GrpcService.decorateError_.restore();
+          done();
+        });
+
+        setImmediate(() => {
+          grpcStream.emit('error', error);
+        });
+      });
+
+      it('should emit an intercepted error', done => {
+        // tslint:disable-next-line:no-any
+        const grpcStream = (duplexify as any).obj();
+        ProtoService.prototype.method = () => grpcStream;
+        const interceptedError = new Error('Intercepted.');
+
+        grpcService.addGrpcInterceptor({
+          error(err, context) {
+            assert.strictEqual(err.code, 500);
+            assert.strictEqual(context.type, 'clientStream');
+            return interceptedError;
+          },
+        });
+
+        grpcService
+          .requestWritableStream(PROTO_OPTS, REQ_OPTS)
+          .on('error', err => {
+            assert.strictEqual(err, interceptedError);
+            done();
+          });
+
+        setImmediate(() => {
+          grpcStream.emit('error', {code: 2});
+        });
+      });
+
+      it('should emit the original error', done => {
+        // tslint:disable-next-line:no-any
+        const grpcStream = (duplexify as any).obj();
+        ProtoService.prototype.method = () => grpcStream;
+        grpcService.getService_ = () => {
+          assert.strictEqual(grpcService.grpcCredentials, authClient);
+          return new ProtoService();
+        };
+        const error = new Error('Error.');
+        sinon.stub(GrpcService, 'decorateError_').returns(null!);
+        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+        stream.on('error', err => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(GrpcService.decorateError_.callCount, 1);
+          assert(GrpcService.decorateError_.calledWith(error));
+          GrpcService.decorateError_.restore();
+          done();
+        });
+
+        setImmediate(() => {
+          grpcStream.emit('error', error);
+        });
+      });
+
+      it('should fail with a total timeout error at its deadline', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        const protoOpts = Object.assign({}, PROTO_OPTS, {totalTimeout: 100});
+        ProtoService.prototype.method = () => grpcStream;
+
+        grpcService
+          .requestWritableStream(protoOpts, REQ_OPTS)
+          .on('error', err => {
+            assert(err instanceof GrpcService.TotalTimeoutError);
+            assert.strictEqual(err.totalTimeout, 100);
+            assert.strictEqual(err.cause.code, 504);
+            done();
+          });
+
+        setImmediate(() => {
+          grpcStream.emit('error', {code: grpc.status.DEADLINE_EXCEEDED});
+        });
+      });
+
+      it('should keep the error of an earlier deadline', done => {
+        const grpcStream = new PassThrough({objectMode: true});
+        const protoOpts = Object.assign({}, PROTO_OPTS, {
+          timeout: 100,
+          totalTimeout: 200,
+        });
+        ProtoService.prototype.method = () => grpcStream;
+
+        grpcService
+          .requestWritableStream(protoOpts, REQ_OPTS)
+          .on('error', err => {
+            assert(!(err instanceof GrpcService.TotalTimeoutError));
+            assert.strictEqual(err.code, 504);
+            done();
+          });
+
+        setImmediate(() => {
+          grpcStream.emit('error', {code: grpc.status.DEADLINE_EXCEEDED});
+        });
+      });
+    });
+  });
+
+  describe('requestDuplexStream', () => {
+    let PROTO_OPTS;
+    const GRPC_CREDENTIALS = {};
+
+    function ProtoService() {}
+
+    beforeEach(() => {
+      PROTO_OPTS = {service: 'service', method: 'method', timeout: 3000};
+      ProtoService.prototype.method = () => {
+        return new PassThrough({objectMode: true});
+      };
+
+      grpcService.grpcCredentials = GRPC_CREDENTIALS;
+      grpcService.baseUrl = 'http://base-url';
+      grpcService.proto = {};
+      grpcService.proto.service = ProtoService;
+
+      grpcService.getService_ = () => {
+        return new ProtoService();
+      };
+    });
+
+    it('should not run in the gcloud sandbox environment', () => {
+      delete grpcService.grpcCredentials;
+
+      grpcService.getGrpcCredentials_ = () => {
+        throw new Error('Should not be called.');
+      };
+
+      glob.GCLOUD_SANDBOX_ENV = true;
+      grpcService.requestDuplexStream({});
+
+      delete glob.GCLOUD_SANDBOX_ENV;
+    });
+
+    it('should get the proto service', done => {
+      grpcService.getService_ = protoOpts => {
+        assert.strictEqual(protoOpts, PROTO_OPTS);
+        setImmediate(done);
+        return new ProtoService();
+      };
+
+      grpcService.requestDuplexStream(PROTO_OPTS);
+    });
+
+    it('should pass the metadata and deadline to the call', done => {
+      sinon.useFakeTimers();
+      const protoOpts = Object.assign({}, PROTO_OPTS, {attemptTimeout: 100});
+
+      ProtoService.prototype.method = (metadata, grpcOpts) => {
+        assert.strictEqual(metadata, grpcService.grpcMetadata);
+        assert.strictEqual(grpcOpts.deadline.getTime(), 100);
+        done();
+        return new PassThrough({objectMode: true});
+      };
+
+      grpcService.requestDuplexStream(protoOpts);
+    });
+
+    it('should pass the per-call metadata with the request', done => {
+      const metadata = {};
+
+      grpcService.getRequestMetadata_ = protoOpts => {
+        assert.strictEqual(protoOpts, PROTO_OPTS);
+        return metadata;
+      };
+
+      ProtoService.prototype.method = metadata_ => {
+        assert.strictEqual(metadata_, metadata);
+        setImmediate(done);
+        return new PassThrough({objectMode: true});
+      };
+
+      grpcService.requestDuplexStream(PROTO_OPTS);
+    });
+
+    it('should write requests and read responses', done => {
+      const grpcStream = new PassThrough({objectMode: true});
+      ProtoService.prototype.method = () => grpcStream;
+
+      const stream = grpcService.requestDuplexStream(PROTO_OPTS);
+
+      stream.on('error', done).on('data', message => {
+        assert.strictEqual(message, 'request');
+        done();
+      });
+
+      // The fake call echoes every request as a response.
+      stream.write('request');
+    });
+
+    it('should read responses after a half-close', done => {
+      const grpcStream = new Duplex({
+        objectMode: true,
+        read: util.noop,
+        write: (chunk, enc, next) => next(),
+      });
+      ProtoService.prototype.method = () => grpcStream;
+
+      const stream = grpcService.requestDuplexStream(PROTO_OPTS);
+
+      grpcStream.on('finish', () => {
+        stream.on('error', done).on('data', message => {
+          assert.strictEqual(message, 'response');
+          done();
+        });
+
+        grpcStream.push('response');
+      });
+
+      stream.end();
+    });
+
+    it('should emit the decorated status', done => {
+      const grpcStream = new PassThrough({objectMode: true});
+      ProtoService.prototype.method = () => grpcStream;
+
+      grpcService
+        .requestDuplexStream(PROTO_OPTS)
+        .on('error', done)
+        .on('response', status => {
+          assert.deepStrictEqual(status, {code: 200, message: 'OK'});
+          done();
+        });
+
+      grpcStream.emit('status', {code: 0});
+    });
+
+    it('should emit the metadata and status of the call', done => {
+      const grpcStream = new PassThrough({objectMode: true});
+      const responseMetadata = new grpc.Metadata();
+      const status = {code: 0, details: 'OK', metadata: new grpc.Metadata()};
+      ProtoService.prototype.method = () => grpcStream;
+
+      const stream = grpcService.requestDuplexStream(PROTO_OPTS);
+      let receivedMetadata;
+
+      stream
+        .on('error', done)
+        .on('metadata', metadata => {
+          receivedMetadata = metadata;
+        })
+        .on('status', callStatus => {
+          assert.strictEqual(receivedMetadata, responseMetadata);
+          assert.strictEqual(callStatus, status);
+          done();
+        });
+
+      grpcStream.emit('metadata', responseMetadata);
+      grpcStream.emit('status', status);
+    });
+
+    it('should emit a decorated error', done => {
+      const grpcStream = new PassThrough({objectMode: true});
+      ProtoService.prototype.method = () => grpcStream;
+
+      grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+        assert.strictEqual(err.code, 503);
+        assert.strictEqual(err.message, 'Service Unavailable');
+        done();
+      });
+
+      grpcStream.emit('error', {code: 14});
+    });
+
+    it('should fail with a total timeout error at its deadline', done => {
+      const grpcStream = new PassThrough({objectMode: true});
+      const protoOpts = Object.assign({}, PROTO_OPTS, {totalTimeout: 100});
+      ProtoService.prototype.method = () => grpcStream;
+
+      grpcService.requestDuplexStream(protoOpts).on('error', err => {
+        assert(err instanceof GrpcService.TotalTimeoutError);
+        assert.strictEqual(err.totalTimeout, 100);
+        assert.strictEqual(err.cause.code, 504);
+        done();
       });
 
-      it('should use retry-request', () => {
-        const reqOpts = Object.assign(
-          {
-            objectMode: true,
-          },
-          REQ_OPTS
-        );
+      grpcStream.emit('error', {code: grpc.status.DEADLINE_EXCEEDED});
+    });
 
-        grpcService.requestStream(PROTO_OPTS, reqOpts);
+    it('should keep the error of an earlier deadline', done => {
+      const grpcStream = new PassThrough({objectMode: true});
+      const protoOpts = Object.assign({}, PROTO_OPTS, {
+        timeout: 100,
+        totalTimeout: 200,
+      });
+      ProtoService.prototype.method = () => grpcStream;
 
-        assert.strictEqual(retryRequestReqOpts, null);
-        assert.strictEqual(retryRequestOptions.retries, grpcService.maxRetries);
-        assert.strictEqual(retryRequestOptions.currentRetryAttempt, 0);
-        assert.strictEqual(retryRequestOptions.objectMode, true);
-        assert.strictEqual(
-          retryRequestOptions.shouldRetryFn,
-          GrpcService.shouldRetryRequest_
-        );
+      grpcService.requestDuplexStream(protoOpts).on('error', err => {
+        assert(!(err instanceof GrpcService.TotalTimeoutError));
+        assert.strictEqual(err.code, 504);
+        done();
       });
 
-      it('should emit the metadata event as a response event', done => {
-        const fakeStream = new PassThrough({objectMode: true});
+      grpcStream.emit('error', {code: grpc.status.DEADLINE_EXCEEDED});
+    });
 
-        ProtoService.prototype.method = () => {
-          return fakeStream;
-        };
+    it('should cancel the call once no message was received in time', done => {
+      const clock = sinon.useFakeTimers();
+      // tslint:disable-next-line:no-any
+      const grpcStream = (duplexify as any).obj();
+      grpcStream.cancel = sinon.spy();
+      ProtoService.prototype.method = () => grpcStream;
+      PROTO_OPTS.idleTimeout = 100;
 
-        retryRequestOverride = (reqOpts, options) => {
-          return options.request();
+      grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+        assert.strictEqual(err.code, 504);
+        assert.strictEqual(grpcStream.cancel.callCount, 1);
+
+        // Errors of the cancelled call are ignored.
+        grpcStream.emit('error', new Error('Cancelled.'));
+        done();
+      });
+
+      clock.tick(100);
+    });
+
+    it('should make the request intercepted by interceptors', done => {
+      const metadata = {};
+
+      grpcService.addGrpcInterceptor({
+        request(context) {
+          assert.strictEqual(context.type, 'bidiStream');
+          context.metadata = metadata;
+        },
+      });
+
+      ProtoService.prototype.method = metadata_ => {
+        assert.strictEqual(metadata_, metadata);
+        setImmediate(done);
+        return new PassThrough({objectMode: true});
+      };
+
+      grpcService.requestDuplexStream(PROTO_OPTS);
+    });
+
+    it('should end the stream with a thrown interceptor error', done => {
+      const error = new Error('Error.');
+
+      grpcService.addGrpcInterceptor({
+        request() {
+          throw error;
+        },
+      });
+
+      grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+        assert.strictEqual(err, error);
+        done();
+      });
+    });
+
+    describe('getting gRPC credentials', () => {
+      beforeEach(() => {
+        delete grpcService.grpcCredentials;
+      });
+
+      it('should emit the credentials error', done => {
+        const error = new Error('err');
+
+        grpcService.getGrpcCredentials_ = callback => {
+          setImmediate(() => {
+            callback(error);
+          });
         };
 
-        fakeStream.on('error', done).on('response', resp => {
-          assert.deepStrictEqual(resp, GrpcService.GRPC_ERROR_CODE_TO_HTTP[0]);
+        grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+          assert.strictEqual(err, error);
           done();
         });
+      });
 
-        grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
-        fakeStream.emit('metadata');
+      it('should make the gRPC request again', done => {
+        const authClient = {};
+
+        grpcService.getGrpcCredentials_ = callback => {
+          callback(null, authClient);
+        };
+        grpcService.getService_ = () => {
+          assert.strictEqual(grpcService.grpcCredentials, authClient);
+          setImmediate(done);
+          return new ProtoService();
+        };
+
+        grpcService.requestDuplexStream(PROTO_OPTS);
       });
+    });
 
-      it('should forward `request` events', done => {
-        const requestStream = grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+    describe('cancellation', () => {
+      let signal: FakeAbortSignal;
 
-        requestStream.on('request', () => {
+      beforeEach(() => {
+        signal = new FakeAbortSignal();
+        PROTO_OPTS.signal = signal;
+      });
+
+      it('should not make a request with an aborted signal', done => {
+        signal.abort();
+
+        grpcService.getService_ = () => {
+          throw new Error('Should not be called.');
+        };
+
+        grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 499);
           done();
         });
+      });
 
-        retryStream.emit('request');
+      it('should stop waiting for the gRPC credentials', done => {
+        delete grpcService.grpcCredentials;
+        grpcService.getGrpcCredentials_ = util.noop;
+
+        grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 499);
+          done();
+        });
+
+        signal.abort();
       });
 
-      it('should emit the response error', done => {
-        const grpcError500 = {code: 2};
-        const requestStream = grpcService.requestStream(PROTO_OPTS, REQ_OPTS);
+      it('should cancel the gRPC stream', done => {
+        // tslint:disable-next-line:no-any
+        const grpcStream = (duplexify as any).obj();
+        grpcStream.cancel = sinon.spy();
+        ProtoService.prototype.method = () => grpcStream;
 
-        requestStream.destroy = err => {
-          assert.deepStrictEqual(err, GrpcService.GRPC_ERROR_CODE_TO_HTTP[2]);
+        grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+          assert.strictEqual(err.code, 499);
+          assert.strictEqual(grpcStream.cancel.callCount, 1);
+
+          // Errors of the cancelled call are ignored.
+          grpcStream.emit('error', new Error('Cancelled.'));
           done();
-        };
+        });
 
-        retryStream.emit('error', grpcError500);
+        signal.abort();
       });
     });
   });
 
-  describe('requestWritableStream', () => {
-    let PROTO_OPTS;
-    const REQ_OPTS = {};
-    const GRPC_CREDENTIALS = {};
+  describe('releaseChannelAffinity', () => {
+    it('should remove the affinity from the pool of the service', () => {
+      const pool = {removeAffinity: sinon.spy()};
+      grpcService.channelPools_.set('Service', pool);
 
-    function ProtoService() {}
+      grpcService.releaseChannelAffinity('Service', 'key');
+      assert(pool.removeAffinity.calledWithExactly('key'));
+    });
+
+    it('should ignore a service without a pool', () => {
+      assert.doesNotThrow(() => {
+        grpcService.releaseChannelAffinity('Service', 'key');
+      });
+    });
+  });
+
+  describe('waitForReady', () => {
+    let client;
 
     beforeEach(() => {
-      PROTO_OPTS = {service: 'service', method: 'method', timeout: 3000};
-      ProtoService.prototype.method = () => {};
+      client = {waitForReady: (deadline, callback) => callback()};
+      grpcService.grpcCredentials = {};
+      grpcService.getService_ = () => client;
+    });
 
-      grpcService.grpcCredentials = GRPC_CREDENTIALS;
-      grpcService.baseUrl = 'http://base-url';
-      grpcService.proto = {};
-      grpcService.proto.service = ProtoService;
+    it('should wait for a client of the service', async () => {
+      const deadline = Date.now() + 100;
+      let args;
 
-      grpcService.getService_ = () => {
-        return new ProtoService();
+      grpcService.getService_ = protoOpts => {
+        assert.deepStrictEqual(protoOpts, {service: 'Service'});
+        return client;
       };
+      client.waitForReady = (...waitArgs) => {
+        args = waitArgs;
+        waitArgs[1]();
+      };
+
+      await grpcService.waitForReady('Service', deadline);
+      assert.strictEqual(args[0], deadline);
     });
 
-    it('should not run in the gcloud sandbox environment', () => {
+    it('should fail once the deadline passed', async () => {
+      client.waitForReady = (deadline, callback) => {
+        callback(new Error('Failed to connect before the deadline'));
+      };
+
+      await assert.rejects(grpcService.waitForReady('Service', 0), err => {
+        assert(err instanceof DeadlineExceededError);
+        assert.strictEqual(err.code, 504);
+        return true;
+      });
+    });
+
+    it('should get the gRPC credentials first', async () => {
+      const credentials = {};
+
       delete grpcService.grpcCredentials;
+      grpcService.getGrpcCredentials_ = callback => {
+        callback(null, credentials);
+      };
 
-      grpcService.getGrpcCredentials_ = () => {
-        throw new Error('Should not be called.');
+      await grpcService.waitForReady('Service', 0);
+      assert.strictEqual(grpcService.grpcCredentials, credentials);
+    });
+
+    it('should fail if the gRPC credentials cannot be got', async () => {
+      const error = new Error('err.');
+
+      delete grpcService.grpcCredentials;
+      grpcService.getGrpcCredentials_ = callback => {
+        callback(error);
       };
 
-      glob.GCLOUD_SANDBOX_ENV = true;
-      grpcService.requestWritableStream({});
+      await assert.rejects(grpcService.waitForReady('Service', 0), error);
+    });
 
-      delete glob.GCLOUD_SANDBOX_ENV;
+    it('should fail once the service is closing', async () => {
+      grpcService.close();
+
+      await assert.rejects(
+        grpcService.waitForReady('Service', 0),
+        GrpcService.ServiceClosedError
+      );
     });
+  });
 
-    it('should get the proto service', done => {
-      ProtoService.prototype.method = () => {
-        // tslint:disable-next-line:no-any
-        return (duplexify as any).obj();
+  describe('checkHealth', () => {
+    it('should call the health checking service', async () => {
+      grpcService.call = async (protoOpts, request) => {
+        assert.deepStrictEqual(protoOpts, {
+          service: 'grpc.health.v1.Health',
+          method: 'check',
+        });
+        assert.deepStrictEqual(request, {service: 'Service'});
+        return {status: 'SERVING'};
       };
-      grpcService.getService_ = protoOpts => {
-        assert.strictEqual(protoOpts, PROTO_OPTS);
-        setImmediate(done);
-        return new ProtoService();
+
+      assert.strictEqual(await grpcService.checkHealth('Service'), 'SERVING');
+    });
+
+    it('should check the configured service by default', async () => {
+      grpcService.healthCheckService = 'Service';
+      grpcService.call = async (protoOpts, request) => {
+        assert.deepStrictEqual(request, {service: 'Service'});
+        return {status: 'NOT_SERVING'};
       };
 
-      grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+      assert.strictEqual(await grpcService.checkHealth(), 'NOT_SERVING');
     });
 
-    it('should set the deadline', done => {
-      const createDeadline = GrpcService.createDeadline_;
-      const fakeDeadline = createDeadline(PROTO_OPTS.timeout);
+    it('should check the server as a whole without a service', async () => {
+      grpcService.call = async (protoOpts, request) => {
+        assert.deepStrictEqual(request, {service: ''});
+        return {status: 'SERVING'};
+      };
 
-      GrpcService.createDeadline_ = timeout => {
-        assert.strictEqual(timeout, PROTO_OPTS.timeout);
-        return fakeDeadline;
+      await grpcService.checkHealth();
+    });
+
+    it('should fail with the error of the call', async () => {
+      const error = new Error('err.');
+
+      grpcService.call = async () => {
+        throw error;
       };
 
-      ProtoService.prototype.method = (reqOpts, metadata, grpcOpts) => {
-        assert.strictEqual(grpcOpts.deadline, fakeDeadline);
+      await assert.rejects(grpcService.checkHealth(), error);
+    });
+  });
+
+  describe('watchHealth', () => {
+    it('should emit the serving status', done => {
+      const statuses: string[] = [];
+
+      grpcService.healthCheckService = 'Service';
+      grpcService.requestStream = (protoOpts, reqOpts) => {
+        assert.strictEqual(protoOpts.service, 'grpc.health.v1.Health');
+        assert.strictEqual(protoOpts.method, 'watch');
+        assert.deepStrictEqual(reqOpts, {objectMode: true, service: 'Service'});
+
+        protoOpts.stream.write({status: 'SERVING'});
+        protoOpts.stream.end({status: 'NOT_SERVING'});
+        return protoOpts.stream;
+      };
+
+      grpcService
+        .watchHealth()
+        .on('data', status => statuses.push(status))
+        .on('end', () => {
+          assert.deepStrictEqual(statuses, ['SERVING', 'NOT_SERVING']);
+          done();
+        });
+    });
+
+    it('should watch the given service', () => {
+      grpcService.healthCheckService = 'Service';
+      grpcService.requestStream = (protoOpts, reqOpts) => {
+        assert.strictEqual(reqOpts.service, 'OtherService');
+        return protoOpts.stream;
+      };
+
+      grpcService.watchHealth('OtherService');
+    });
+  });
+
+  describe('connectivity state changes', () => {
+    /**
+     * A channel whose state only changes when told to.
+     */
+    class FakeChannel {
+      state: number = grpc.connectivityState.IDLE;
+      watchers: Array<() => void> = [];
+      getConnectivityState() {
+        return this.state;
+      }
+      watchConnectivityState(currentState, deadline, callback) {
+        this.watchers.push(callback);
+      }
+      setState(state: number) {
+        const watchers = this.watchers;
+        this.state = state;
+        this.watchers = [];
+        watchers.forEach(watcher => watcher());
+      }
+    }
+
+    let channel: FakeChannel;
+    let changes: Array<{}>;
+    const onChange = change => changes.push(change);
+
+    beforeEach(() => {
+      channel = new FakeChannel();
+      changes = [];
+      grpcService.grpcCredentials = {};
+      grpcService.protos = {
+        Service: {
+          Service: class Service {
+            getChannel() {
+              return channel;
+            }
+          },
+        },
+      };
+    });
+
+    it('should emit the changes of the cached clients', () => {
+      grpcService.getService_({service: 'Service'});
+      grpcService.on('connectivityStateChange', onChange);
+      channel.setState(grpc.connectivityState.READY);
+
+      assert.deepStrictEqual(changes, [
+        {
+          service: 'Service',
+          channelIndex: 0,
+          state: 'READY',
+          previousState: 'IDLE',
+        },
+      ]);
+    });
+
+    it('should emit the changes of new clients', () => {
+      grpcService.on('connectivityStateChange', onChange);
+      grpcService.getService_({service: 'Service'});
+      channel.setState(grpc.connectivityState.CONNECTING);
+
+      assert.strictEqual(changes.length, 1);
+    });
+
+    it('should emit the changes of the clients of a pool', () => {
+      const channels = [new FakeChannel(), new FakeChannel()];
+      let index = 0;
+
+      grpcService.channelPool = {size: 2};
+      grpcService.protos.Service.Service.prototype.getChannel = () => {
+        return channels[index++];
+      };
+      grpcService.on('connectivityStateChange', onChange);
+      grpcService.getService_({service: 'Service'});
+      grpcService.getService_({service: 'Service'});
+      channels[1].setState(grpc.connectivityState.TRANSIENT_FAILURE);
+
+      assert.deepStrictEqual(changes, [
+        {
+          service: 'Service',
+          channelIndex: 1,
+          state: 'TRANSIENT_FAILURE',
+          previousState: 'IDLE',
+        },
+      ]);
+    });
+
+    it('should watch every channel once', () => {
+      grpcService.getService_({service: 'Service'});
+      grpcService.on('connectivityStateChange', onChange);
+      grpcService.on('connectivityStateChange', util.noop);
+
+      assert.strictEqual(channel.watchers.length, 1);
+    });
+
+    it('should not watch without listeners', () => {
+      grpcService.getService_({service: 'Service'});
+      assert.strictEqual(channel.watchers.length, 0);
+    });
+
+    it('should stop watching once the listeners are removed', () => {
+      grpcService.getService_({service: 'Service'});
+      grpcService.on('connectivityStateChange', onChange);
+      grpcService.removeListener('connectivityStateChange', onChange);
+      channel.setState(grpc.connectivityState.CONNECTING);
+
+      assert.deepStrictEqual(changes, []);
+      assert.strictEqual(channel.watchers.length, 0);
+    });
+  });
+
+  describe('close', () => {
+    const REQ_OPTS = {};
+    let PROTO_OPTS;
+    let retryRequestCallback;
+    let call;
+
+    beforeEach(() => {
+      PROTO_OPTS = {service: 'service', method: 'method'};
+      // tslint:disable-next-line:no-any
+      call = (duplexify as any).obj();
+      call.cancel = sinon.spy();
+      grpcService.grpcCredentials = {};
+      grpcService.getService_ = () => {
+        return {method: () => call};
+      };
+      retryRequestOverride = (reqOpts, options, callback) => {
+        retryRequestCallback = callback;
+        options.request({}, util.noop);
+        return {abort: util.noop};
+      };
+    });
 
-        GrpcService.createDeadline_ = createDeadline;
-        setImmediate(done);
+    it('should close the cached clients', async () => {
+      const service = {close: sinon.spy()};
+      const pooledClient = {close: sinon.spy()};
 
-        return new PassThrough({objectMode: true});
-      };
+      grpcService.activeServiceMap_.set('Service', service);
+      grpcService.channelPools_.set('PooledService', {
+        clients: [pooledClient],
+      });
 
-      retryRequestOverride = (_, retryOpts) => {
-        return retryOpts.request();
-      };
+      await grpcService.close();
 
-      grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+      assert.strictEqual(service.close.callCount, 1);
+      assert.strictEqual(pooledClient.close.callCount, 1);
+      assert.strictEqual(grpcService.activeServiceMap_.size, 0);
+      assert.strictEqual(grpcService.channelPools_.size, 0);
     });
 
-    it('should pass the grpc metadata with the request', done => {
-      ProtoService.prototype.method = (reqOpts, metadata) => {
-        assert.strictEqual(metadata, grpcService.grpcMetadata);
-        setImmediate(done);
-        return new PassThrough({objectMode: true});
+    it('should close the other clients if one fails to close', async () => {
+      const service = {
+        close() {
+          throw new Error('Error.');
+        },
       };
+      const pooledClient = {close: sinon.spy()};
 
-      retryRequestOverride = (_, retryOpts) => {
-        return retryOpts.request();
-      };
+      grpcService.activeServiceMap_.set('Service', service);
+      grpcService.channelPools_.set('PooledService', {
+        clients: [pooledClient],
+      });
 
-      grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+      await grpcService.close();
+
+      assert.strictEqual(pooledClient.close.callCount, 1);
+      assert.strictEqual(grpcService.activeServiceMap_.size, 0);
+      assert.strictEqual(grpcService.channelPools_.size, 0);
     });
 
-    describe('getting gRPC credentials', () => {
-      beforeEach(() => {
-        delete grpcService.grpcCredentials;
+    it('should close once the last call ends if a client fails to close', done => {
+      let responded = false;
+
+      grpcService.activeServiceMap_.set('Service', {
+        close() {
+          throw new Error('Error.');
+        },
+      });
+      grpcService.request(PROTO_OPTS, REQ_OPTS, () => {
+        responded = true;
+      });
+      grpcService.close().then(() => {
+        assert.strictEqual(responded, true);
+        done();
       });
 
-      describe('grpcCredentials error', () => {
-        const error = new Error('err');
+      setImmediate(() => {
+        retryRequestCallback(null, {});
+      });
+    });
 
-        beforeEach(() => {
-          grpcService.getGrpcCredentials_ = callback => {
-            setImmediate(() => {
-              callback(error);
-            });
-          };
-        });
+    it('should only close once', () => {
+      const closing = grpcService.close();
+      assert.strictEqual(grpcService.close(), closing);
+    });
 
-        it('should execute callback with error', done => {
-          grpcService
-            .requestWritableStream(PROTO_OPTS, REQ_OPTS)
-            .on('error', err => {
-              assert.strictEqual(err, error);
-              done();
-            });
-        });
+    it('should fail calls made once it is closing', done => {
+      let returned = false;
+      grpcService.close();
+
+      grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+        assert(err instanceof GrpcService.ServiceClosedError);
+        assert.strictEqual(err.code, 412);
+        assert.strictEqual(err.message, 'The service was closed.');
+        assert.strictEqual(returned, true);
+        done();
       });
+      returned = true;
+    });
 
-      describe('grpcCredentials success', () => {
-        const authClient = {};
+    it('should use the gRPC status code if configured to', done => {
+      grpcService.useGrpcStatusCodes = true;
+      grpcService.close();
 
-        beforeEach(() => {
-          grpcService.getGrpcCredentials_ = callback => {
-            callback(null, authClient);
-          };
-        });
+      grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+        assert.strictEqual(err.code, grpc.status.FAILED_PRECONDITION);
+        done();
+      });
+    });
 
-        it('should make the gRPC request again', done => {
-          // tslint:disable-next-line:no-any
-          const stream = (duplexify as any).obj();
-          ProtoService.prototype.method = () => {
-            return stream;
-          };
-          grpcService.getService_ = () => {
-            assert.strictEqual(grpcService.grpcCredentials, authClient);
-            setImmediate(done);
-            return new ProtoService();
-          };
+    it('should fail streams made once it is closing', done => {
+      grpcService.close();
 
-          grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
-        });
+      grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+        assert(err instanceof GrpcService.ServiceClosedError);
+        done();
       });
     });
 
-    describe('request option decoration', () => {
-      beforeEach(() => {
-        ProtoService.prototype.method = () => {
-          return new PassThrough({objectMode: true});
-        };
+    it('should wait for the calls in progress', done => {
+      let responded = false;
 
-        retryRequestOverride = (reqOpts, options) => {
-          return options.request();
-        };
+      grpcService.request(PROTO_OPTS, REQ_OPTS, () => {
+        responded = true;
+      });
+      grpcService.close().then(() => {
+        assert.strictEqual(responded, true);
+        assert.strictEqual(call.cancel.callCount, 0);
+        done();
       });
 
-      describe('requestWritableStream() success', () => {
-        it('should decorate the request', done => {
-          const decoratedRequest = {};
+      setImmediate(() => {
+        retryRequestCallback(null, {});
+      });
+    });
 
-          grpcService.decorateRequest_ = reqOpts => {
-            assert.strictEqual(reqOpts, REQ_OPTS);
-            return decoratedRequest;
-          };
+    it('should wait for the streams in progress', done => {
+      const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+      let ended = false;
 
-          ProtoService.prototype.method = reqOpts => {
-            assert.strictEqual(reqOpts, decoratedRequest);
-            setImmediate(done);
-            return new PassThrough({objectMode: true});
-          };
+      grpcService.close().then(() => {
+        assert.strictEqual(ended, true);
+        done();
+      });
 
-          grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
-        });
+      setImmediate(() => {
+        ended = true;
+        stream.emit('status', {code: 0});
       });
+    });
 
-      describe('requestWritableStream() error', () => {
-        const error = new Error('Error.');
+    it('should cancel the calls in progress after the timeout', done => {
+      let cancelledError;
 
-        it('should end stream with a thrown error', done => {
-          grpcService.decorateRequest_ = () => {
-            throw error;
-          };
+      grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+        cancelledError = err;
+      });
+      grpcService.close({timeoutMs: 1}).then(() => {
+        assert.strictEqual(cancelledError.code, 499);
+        assert.strictEqual(call.cancel.callCount, 1);
+        done();
+      });
+    });
 
-          grpcService
-            .requestWritableStream(PROTO_OPTS, REQ_OPTS)
-            .on('error', err => {
-              assert.strictEqual(err, error);
-              done();
-            });
+    it('should cancel the calls in progress if not graceful', done => {
+      let cancelledError;
+
+      grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+        cancelledError = err;
+      });
+      grpcService.close({graceful: false}).then(() => {
+        setImmediate(() => {
+          assert.strictEqual(cancelledError.code, 499);
+          assert.strictEqual(call.cancel.callCount, 1);
+          done();
         });
       });
     });
 
-    describe('stream success', () => {
-      const authClient = {};
+    describe('calls that could not be made', () => {
+      const error = new Error('Channel has been shut down');
 
       beforeEach(() => {
-        delete grpcService.grpcCredentials;
-        grpcService.getGrpcCredentials_ = callback => {
-          callback(null, authClient);
+        retryRequestOverride = null;
+        grpcService.getService_ = () => {
+          return {
+            method() {
+              throw error;
+            },
+          };
         };
-        sinon.spy(GrpcService, 'decorateStatus_');
       });
 
-      it('should emit response', done => {
-        // tslint:disable-next-line:no-any
-        const stream = (duplexify as any).obj();
-        ProtoService.prototype.method = () => {
-          return stream;
-        };
+      it('should end a call if the client cannot be created', done => {
         grpcService.getService_ = () => {
-          assert.strictEqual(grpcService.grpcCredentials, authClient);
-          return new ProtoService();
+          throw error;
         };
 
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(grpcService.activeCalls_.size, 0);
+          grpcService.close().then(done);
+        });
+      });
+
+      it('should end a call', done => {
+        grpcService.request(PROTO_OPTS, REQ_OPTS, err => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(grpcService.activeCalls_.size, 0);
+          grpcService.close().then(done);
+        });
+      });
+
+      it('should end a stream', done => {
+        grpcService.requestStream(PROTO_OPTS, REQ_OPTS).on('error', err => {
+          assert.strictEqual(err, error);
+          setImmediate(() => {
+            assert.strictEqual(grpcService.activeCalls_.size, 0);
+            grpcService.close().then(done);
+          });
+        });
+      });
+
+      it('should end a writable stream', done => {
         grpcService
           .requestWritableStream(PROTO_OPTS, REQ_OPTS)
-          .on('response', status => {
-            assert.strictEqual(status, 'foo');
-            assert.strictEqual(GrpcService.decorateStatus_.callCount, 1);
-            assert(GrpcService.decorateStatus_.calledWith('foo'));
-            GrpcService.decorateStatus_.restore();
-            done();
-          })
-          .on('error', done);
+          .on('error', err => {
+            assert.strictEqual(err, error);
+            setImmediate(() => {
+              assert.strictEqual(grpcService.activeCalls_.size, 0);
+              grpcService.close().then(done);
+            });
+          });
+      });
 
-        setImmediate(() => {
-          stream.emit('status', 'foo');
+      it('should end a duplex stream', done => {
+        grpcService.requestDuplexStream(PROTO_OPTS).on('error', err => {
+          assert.strictEqual(err, error);
+          setImmediate(() => {
+            assert.strictEqual(grpcService.activeCalls_.size, 0);
+            grpcService.close().then(done);
+          });
         });
       });
     });
 
-    describe('stream error', () => {
-      const authClient = {};
+    it('should leave the signal of a call untouched', done => {
+      const signal = new FakeAbortSignal();
+      const protoOpts = Object.assign({}, PROTO_OPTS, {signal});
 
-      beforeEach(() => {
-        delete grpcService.grpcCredentials;
-        grpcService.getGrpcCredentials_ = callback => {
-          callback(null, authClient);
-        };
+      grpcService.request(protoOpts, REQ_OPTS, err => {
+        assert.strictEqual(err.code, 499);
+        assert.strictEqual(signal.aborted, false);
+        assert.strictEqual(signal.listenerCount('abort'), 0);
+        done();
       });
+      grpcService.close({graceful: false});
+    });
+  });
 
-      it('should emit a decorated error', done => {
-        // tslint:disable-next-line:no-any
-        const grpcStream = (duplexify as any).obj();
-        ProtoService.prototype.method = () => {
-          return grpcStream;
-        };
-        grpcService.getService_ = () => {
-          assert.strictEqual(grpcService.grpcCredentials, authClient);
-          return new ProtoService();
-        };
+  describe('updateCredentials', () => {
+    const REQ_OPTS = {};
+    const CREDENTIALS = {};
+    let PROTO_OPTS;
+    let service;
 
-        const error = new Error('Error.');
-        const expectedDecoratedError = new Error('Decorated error.');
+    beforeEach(() => {
+      PROTO_OPTS = {service: 'service', method: 'method'};
+      service = {close: sinon.spy()};
+      grpcService.grpcCredentials = {};
+      grpcService.activeServiceMap_.set('Service', service);
+      grpcService.getService_ = () => {
+        return {method: util.noop};
+      };
+      retryRequestOverride = () => {
+        return {abort: util.noop};
+      };
+    });
 
-        sinon.stub(GrpcService, 'decorateError_').callsFake(() => {
-          return expectedDecoratedError;
-        });
+    it('should replace the credentials', async () => {
+      await grpcService.updateCredentials(CREDENTIALS);
+      assert.strictEqual(grpcService.grpcCredentials, CREDENTIALS);
+    });
 
-        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
+    it('should get the credentials if none are given', async () => {
+      grpcService.getGrpcCredentials_ = callback => {
+        callback(null, CREDENTIALS);
+      };
 
-        stream.on('error', err => {
-          assert.strictEqual(err, expectedDecoratedError);
-          assert.strictEqual(GrpcService.decorateError_.callCount, 1);
-          assert(GrpcService.decorateError_.calledWith(error));
-          GrpcService.decorateError_.restore();
-          done();
-        });
+      await grpcService.updateCredentials();
+      assert.strictEqual(grpcService.grpcCredentials, CREDENTIALS);
+    });
 
-        setImmediate(() => {
-          grpcStream.emit('error', error);
-        });
+    it('should reject if getting the credentials fails', async () => {
+      const error = new Error('Error.');
+
+      grpcService.getGrpcCredentials_ = callback => {
+        callback(error);
+      };
+
+      await assert.rejects(grpcService.updateCredentials(), error);
+      assert.strictEqual(grpcService.activeServiceMap_.get('Service'), service);
+    });
+
+    it('should reject once the service is closing', async () => {
+      grpcService.close();
+
+      await assert.rejects(
+        grpcService.updateCredentials(CREDENTIALS),
+        GrpcService.ServiceClosedError
+      );
+    });
+
+    it('should emit credentialsChange', async () => {
+      const onChange = sinon.spy();
+
+      grpcService.on('credentialsChange', onChange);
+      await grpcService.updateCredentials(CREDENTIALS);
+      assert.strictEqual(onChange.callCount, 1);
+
+      grpcService.removeListener('credentialsChange', onChange);
+      await grpcService.updateCredentials(CREDENTIALS);
+      assert.strictEqual(onChange.callCount, 1);
+    });
+
+    it('should close the cached clients if no call is in progress', async () => {
+      const pooledClient = {close: sinon.spy()};
+
+      grpcService.channelPools_.set('PooledService', {
+        clients: [pooledClient],
       });
 
-      it('should emit the original error', done => {
-        // tslint:disable-next-line:no-any
-        const grpcStream = (duplexify as any).obj();
-        ProtoService.prototype.method = () => grpcStream;
-        grpcService.getService_ = () => {
-          assert.strictEqual(grpcService.grpcCredentials, authClient);
-          return new ProtoService();
-        };
-        const error = new Error('Error.');
-        sinon.stub(GrpcService, 'decorateError_').returns(null!);
-        const stream = grpcService.requestWritableStream(PROTO_OPTS, REQ_OPTS);
-        stream.on('error', err => {
-          assert.strictEqual(err, error);
-          assert.strictEqual(GrpcService.decorateError_.callCount, 1);
-          assert(GrpcService.decorateError_.calledWith(error));
-          GrpcService.decorateError_.restore();
-          done();
-        });
+      await grpcService.updateCredentials(CREDENTIALS);
+
+      assert.strictEqual(service.close.callCount, 1);
+      assert.strictEqual(pooledClient.close.callCount, 1);
+      assert.strictEqual(grpcService.activeServiceMap_.size, 0);
+      assert.strictEqual(grpcService.channelPools_.size, 0);
+    });
+
+    it('should close the cached clients once the calls in progress end', async () => {
+      const callbacks: Function[] = [];
+
+      retryRequestOverride = (reqOpts, options, callback) => {
+        callbacks.push(callback);
+        return {abort: util.noop};
+      };
+
+      grpcService.request(PROTO_OPTS, REQ_OPTS, util.noop);
+      await grpcService.updateCredentials(CREDENTIALS);
+      // A call made with the new credentials does not keep them open.
+      grpcService.request(PROTO_OPTS, REQ_OPTS, util.noop);
+
+      assert.strictEqual(service.close.callCount, 0);
+      callbacks[0](null, {});
+      assert.strictEqual(service.close.callCount, 1);
+    });
+
+    it('should replace the credentials if a client fails to close', async () => {
+      const onChange = sinon.spy();
+
+      service.close = () => {
+        throw new Error('Error.');
+      };
+      grpcService.on('credentialsChange', onChange);
+
+      await grpcService.updateCredentials(CREDENTIALS);
+
+      assert.strictEqual(grpcService.grpcCredentials, CREDENTIALS);
+      assert.strictEqual(grpcService.activeServiceMap_.size, 0);
+      assert.strictEqual(onChange.callCount, 1);
+    });
+
+    it('should close the cached clients when the service closes', done => {
+      grpcService.request(PROTO_OPTS, REQ_OPTS, util.noop);
 
-        setImmediate(() => {
-          grpcStream.emit('error', error);
+      grpcService
+        .updateCredentials(CREDENTIALS)
+        .then(() => grpcService.close({graceful: false}))
+        .then(() => {
+          assert.strictEqual(service.close.callCount, 1);
+          assert.strictEqual(grpcService.retiredClients_.length, 0);
+          done();
         });
-      });
     });
   });
 
@@ -1493,42 +4958,319 @@ describe('GrpcService', () => {
     });
   });
 
-  describe('decorateError_', () => {
-    const expectedDecoratedError = new Error('err.');
+  describe('createCancelledError_', () => {
+    it('should create a decorated CANCELLED error', () => {
+      const error = GrpcService.createCancelledError_();
+
+      assert(error instanceof Error);
+      assert.strictEqual(error.code, 499);
+      assert.strictEqual(error.message, 'The call was cancelled.');
+    });
+  });
+
+  describe('createIdleTimeoutError_', () => {
+    it('should create a decorated DEADLINE_EXCEEDED error', () => {
+      const error = GrpcService.createIdleTimeoutError_(100);
+
+      assert(error instanceof Error);
+      assert.strictEqual(error.code, 504);
+      assert.strictEqual(error.message, 'No message received for 100ms.');
+    });
+  });
+
+  describe('watchIdle_', () => {
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+    let clock: sn.SinonFakeTimers;
+    let source: PassThrough;
+    let onIdle: sn.SinonSpy;
 
     beforeEach(() => {
-      sinon.stub(GrpcService, 'decorateGrpcResponse_').callsFake(() => {
-        return expectedDecoratedError;
-      });
+      clock = sinon.useFakeTimers({toFake: ['setTimeout', 'clearTimeout']});
+      source = new PassThrough({objectMode: true});
+      onIdle = sinon.spy();
     });
 
-    it('should decorate an Error object', () => {
-      const grpcError = new Error('Hello');
-      // tslint:disable-next-line:no-any
-      (grpcError as any).code = 2;
+    it('should return the source without an idle timeout', () => {
+      assert.strictEqual(GrpcService.watchIdle_(source, {}, onIdle), source);
+    });
+
+    it('should report the stream idle', () => {
+      GrpcService.watchIdle_(source, {idleTimeout: 100}, onIdle);
+
+      clock.tick(99);
+      assert.strictEqual(onIdle.callCount, 0);
+      clock.tick(1);
+      assert.strictEqual(onIdle.callCount, 1);
+    });
+
+    it('should restart the idle timeout with every message', async () => {
+      GrpcService.watchIdle_(source, {idleTimeout: 100}, onIdle).resume();
+
+      clock.tick(60);
+      source.write('a');
+      await flush();
+
+      clock.tick(60);
+      assert.strictEqual(onIdle.callCount, 0);
+      clock.tick(40);
+      assert.strictEqual(onIdle.callCount, 1);
+    });
+
+    it('should drop keepalive messages', done => {
+      const protoOpts = {
+        idleTimeout: 100,
+        isKeepalive: message => message === 'ping',
+      };
+      const messages: string[] = [];
+
+      GrpcService.watchIdle_(source, protoOpts, onIdle)
+        .on('data', message => {
+          messages.push(message);
+        })
+        .on('end', () => {
+          assert.deepStrictEqual(messages, ['a']);
+          done();
+        });
+
+      source.write('ping');
+      source.end('a');
+    });
+
+    it('should stop once the stream ends', async () => {
+      GrpcService.watchIdle_(source, {idleTimeout: 100}, onIdle).resume();
+
+      source.end();
+      await flush();
+
+      clock.tick(100);
+      assert.strictEqual(onIdle.callCount, 0);
+    });
+
+    it('should stop once the stream fails', () => {
+      GrpcService.watchIdle_(source, {idleTimeout: 100}, onIdle);
+
+      source.emit('error', new Error('Error.'));
+
+      clock.tick(100);
+      assert.strictEqual(onIdle.callCount, 0);
+    });
+  });
+
+  describe('onAbort_', () => {
+    it('should listen for the signal to abort', () => {
+      const signal = new FakeAbortSignal();
+      const listener = sinon.spy();
+      const removeListener = GrpcService.onAbort_(signal, listener);
+
+      signal.abort();
+      assert.strictEqual(listener.callCount, 1);
+
+      removeListener();
+      assert.strictEqual(signal.listenerCount('abort'), 0);
+    });
+
+    it('should not fail without a signal', () => {
+      GrpcService.onAbort_(undefined, util.noop)();
+    });
+  });
+
+  describe('getEarliestDeadline_', () => {
+    it('should return the earliest deadline', () => {
+      const deadline = new Date(1);
+      const otherDeadline = new Date(2);
+
+      assert.strictEqual(
+        GrpcService.getEarliestDeadline_(deadline, otherDeadline),
+        deadline
+      );
+      assert.strictEqual(
+        GrpcService.getEarliestDeadline_(otherDeadline, deadline),
+        deadline
+      );
+    });
+
+    it('should return the deadline that is set', () => {
+      const deadline = new Date(1);
+
+      assert.strictEqual(
+        GrpcService.getEarliestDeadline_(undefined, deadline),
+        deadline
+      );
+      assert.strictEqual(
+        GrpcService.getEarliestDeadline_(deadline, undefined),
+        deadline
+      );
+      assert.strictEqual(GrpcService.getEarliestDeadline_(), undefined);
+    });
+  });
+
+  describe('TotalTimeoutError', () => {
+    it('should describe the total timeout', () => {
+      const cause = new Error('err.');
+      const error = new GrpcService.TotalTimeoutError(100, cause);
+
+      assert(error instanceof Error);
+      assert.strictEqual(error.name, 'TotalTimeoutError');
+      assert.strictEqual(error.message, 'Total timeout of 100ms exceeded.');
+      assert.strictEqual(error.code, 504);
+      assert.strictEqual(error.totalTimeout, 100);
+      assert.strictEqual(error.cause, cause);
+    });
+
+    it('should use the given HTTP status code', () => {
+      const error = new GrpcService.TotalTimeoutError(100, undefined, 408);
+      assert.strictEqual(error.code, 408);
+    });
+
+    it('should use the given message', () => {
+      const error = new GrpcService.TotalTimeoutError(
+        100,
+        undefined,
+        504,
+        'No retry.'
+      );
+      assert.strictEqual(error.message, 'No retry.');
+    });
+
+    it('should be a DEADLINE_EXCEEDED error', () => {
+      const error = new GrpcService.TotalTimeoutError(100);
+
+      assert(error instanceof DeadlineExceededError);
+      assert.strictEqual(error.grpcCode, 4);
+      assert.strictEqual(error.grpcCodeName, 'DEADLINE_EXCEEDED');
+    });
+  });
+
+  describe('ServiceClosedError', () => {
+    it('should be a FAILED_PRECONDITION error', () => {
+      const error = new GrpcService.ServiceClosedError();
+
+      assert(error instanceof FailedPreconditionError);
+      assert.strictEqual(error.name, 'ServiceClosedError');
+      assert.strictEqual(error.message, 'The service was closed.');
+      assert.strictEqual(error.code, 412);
+      assert.strictEqual(error.grpcCode, grpc.status.FAILED_PRECONDITION);
+    });
+
+    it('should use the given HTTP status code', () => {
+      const error = new GrpcService.ServiceClosedError(400);
+      assert.strictEqual(error.code, 400);
+    });
+  });
+
+  describe('decorateError_', () => {
+    it('should create the error of the gRPC code', () => {
+      const metadata = new grpc.Metadata();
+      const grpcError = Object.assign(new Error('Hello'), {code: 5, metadata});
 
       const decoratedError = GrpcService.decorateError_(grpcError);
-      const decorateArgs = GrpcService.decorateGrpcResponse_.getCall(0).args;
 
-      assert.strictEqual(decoratedError, expectedDecoratedError);
-      assert.strictEqual(decorateArgs[0] instanceof Error, true);
-      assert.strictEqual(decorateArgs[1], grpcError);
+      assert(decoratedError instanceof NotFoundError);
+      assert(decoratedError instanceof GrpcServiceError);
+      assert.strictEqual(decoratedError.message, 'Hello');
+      assert.strictEqual(decoratedError.code, 404);
+      assert.strictEqual(decoratedError.grpcCode, 5);
+      assert.strictEqual(decoratedError.grpcCodeName, 'NOT_FOUND');
+      assert.strictEqual(decoratedError.metadata, metadata);
+      assert.strictEqual(decoratedError.cause, grpcError);
     });
 
     it('should decorate a plain object', () => {
-      const grpcMessage = {code: 2};
+      const grpcMessage = {code: 2, details: 'Hello'};
 
       const decoratedError = GrpcService.decorateError_(grpcMessage);
-      const decorateArgs = GrpcService.decorateGrpcResponse_.getCall(0).args;
 
-      assert.strictEqual(decoratedError, expectedDecoratedError);
-      assert.deepStrictEqual(decorateArgs[0], {});
-      assert.strictEqual(decorateArgs[0] instanceof Error, false);
-      assert.strictEqual(decorateArgs[1], grpcMessage);
+      assert(decoratedError instanceof UnknownError);
+      assert.strictEqual(decoratedError.code, 500);
+      assert.strictEqual(decoratedError.details, 'Hello');
+      assert.strictEqual(decoratedError.cause, undefined);
+    });
+
+    it('should use the message of the gRPC error map', () => {
+      const decoratedError = GrpcService.decorateError_({code: 14});
+      assert.strictEqual(decoratedError.message, 'Service Unavailable');
+    });
+
+    it('should decode the status details onto the error', () => {
+      const metadata = new grpc.Metadata();
+      const errorInfo = {reason: 'WIDGET_LOCKED'};
+      const grpcError = Object.assign(new Error('Hello'), {code: 2, metadata});
+
+      getStatusDetailsOverride = metadata_ => {
+        assert.strictEqual(metadata_, metadata);
+        return {errorInfo};
+      };
+
+      const decoratedError = GrpcService.decorateError_(grpcError);
+      assert.strictEqual(decoratedError.errorInfo, errorInfo);
+    });
+
+    it('should return null without a gRPC code', () => {
+      getStatusDetailsOverride = () => {
+        throw new Error('Should not be called.');
+      };
+
+      assert.strictEqual(GrpcService.decorateError_(new Error('Hello')), null);
+    });
+  });
+
+  describe('httpCodeToGrpcCode', () => {
+    it('should look up the gRPC status code', () => {
+      assert.strictEqual(GrpcService.httpCodeToGrpcCode(200), grpc.status.OK);
+      assert.strictEqual(
+        GrpcService.httpCodeToGrpcCode(404),
+        grpc.status.NOT_FOUND
+      );
+      assert.strictEqual(
+        GrpcService.httpCodeToGrpcCode(503),
+        grpc.status.UNAVAILABLE
+      );
+    });
+
+    it('should use the lowest of several gRPC status codes', () => {
+      assert.strictEqual(
+        GrpcService.httpCodeToGrpcCode(409),
+        grpc.status.ALREADY_EXISTS
+      );
+      assert.strictEqual(
+        GrpcService.httpCodeToGrpcCode(500),
+        grpc.status.UNKNOWN
+      );
+    });
+
+    it('should use the given code map', () => {
+      const codeMap = {9: {code: 409, message: 'Conflict'}};
+      assert.strictEqual(
+        GrpcService.httpCodeToGrpcCode(409, codeMap),
+        grpc.status.FAILED_PRECONDITION
+      );
+    });
+
+    it('should return UNKNOWN for codes that are not mapped', () => {
+      assert.strictEqual(
+        GrpcService.httpCodeToGrpcCode(418),
+        grpc.status.UNKNOWN
+      );
     });
   });
 
   describe('decorateGrpcResponse_', () => {
+    it('should use the given code map', () => {
+      const codeMap = {9: {code: 409, message: 'Conflict'}};
+      const extended = GrpcService.decorateGrpcResponse_(
+        {},
+        {code: 9},
+        codeMap
+      );
+
+      assert.strictEqual(extended.code, 409);
+      assert.strictEqual(extended.message, 'Conflict');
+      assert.strictEqual(
+        GrpcService.decorateGrpcResponse_({}, {code: 5}, codeMap),
+        null
+      );
+    });
+
     it('should retrieve the HTTP code from the gRPC error map', () => {
       const errorMap = GrpcService.GRPC_ERROR_CODE_TO_HTTP;
       const codes = Object.keys(errorMap);
@@ -1603,6 +5345,24 @@ describe('GrpcService', () => {
     });
   });
 
+  describe('getRetryDelay_', () => {
+    it('should convert the server delay to milliseconds', () => {
+      const delay = GrpcService.getRetryDelay_({
+        code: 429,
+        retryInfo: {retryDelay: {seconds: 1, nanos: 250000000}},
+      });
+      assert.strictEqual(delay, 1250);
+    });
+
+    it('should return undefined without a server delay', () => {
+      assert.strictEqual(GrpcService.getRetryDelay_({code: 429}), undefined);
+      assert.strictEqual(
+        GrpcService.getRetryDelay_({code: 429, retryInfo: {}}),
+        undefined
+      );
+    });
+  });
+
   describe('shouldRetryRequest_', () => {
     it('should retry on 429, 500, 502, and 503', () => {
       const shouldRetryFn = GrpcService.shouldRetryRequest_;
@@ -1622,6 +5382,67 @@ describe('GrpcService', () => {
     });
   });
 
+  describe('isIdempotent_', () => {
+    const PROTO_OPTS = {service: 'Service', method: 'create'};
+
+    it('should default to idempotent', () => {
+      assert.strictEqual(grpcService.isIdempotent_(PROTO_OPTS), true);
+    });
+
+    it('should use the method options', () => {
+      grpcService.protoMethods = {Service: {create: {idempotent: false}}};
+      assert.strictEqual(grpcService.isIdempotent_(PROTO_OPTS), false);
+    });
+
+    it('should prefer the proto options', () => {
+      const protoOpts = Object.assign({idempotent: true}, PROTO_OPTS);
+      grpcService.protoMethods = {Service: {create: {idempotent: false}}};
+      assert.strictEqual(grpcService.isIdempotent_(protoOpts), true);
+    });
+  });
+
+  describe('getRetryableCodes_', () => {
+    const PROTO_OPTS = {service: 'Service', method: 'create'};
+    const NON_IDEMPOTENT_PROTO_OPTS = Object.assign(
+      {idempotent: false},
+      PROTO_OPTS
+    );
+
+    it('should return the codes of an idempotent method', () => {
+      const retryableCodes = [4, 14];
+      assert.strictEqual(
+        grpcService.getRetryableCodes_(PROTO_OPTS, {retryableCodes}),
+        retryableCodes
+      );
+      assert.strictEqual(
+        grpcService.getRetryableCodes_(PROTO_OPTS, {}),
+        undefined
+      );
+    });
+
+    it('should only return UNAVAILABLE for a non-idempotent method', () => {
+      assert.deepStrictEqual(
+        grpcService.getRetryableCodes_(NON_IDEMPOTENT_PROTO_OPTS, {}),
+        [14]
+      );
+      assert.deepStrictEqual(
+        grpcService.getRetryableCodes_(NON_IDEMPOTENT_PROTO_OPTS, {
+          retryableCodes: [4, 14],
+        }),
+        [14]
+      );
+    });
+
+    it('should respect the codes of a non-idempotent method', () => {
+      assert.deepStrictEqual(
+        grpcService.getRetryableCodes_(NON_IDEMPOTENT_PROTO_OPTS, {
+          retryableCodes: [4],
+        }),
+        []
+      );
+    });
+  });
+
   describe('decorateRequest_', () => {
     it('should delete custom API values without modifying object', () => {
       const reqOpts = {
@@ -1657,6 +5478,55 @@ describe('GrpcService', () => {
     });
   });
 
+  describe('getRequestMetadata_', () => {
+    it('should return the service metadata by default', () => {
+      const metadata = grpcService.getRequestMetadata_({});
+      assert.strictEqual(metadata, grpcService.grpcMetadata);
+    });
+
+    it('should merge a plain object onto a copy', () => {
+      const serviceMap = grpcService.grpcMetadata.getMap();
+      const metadata = grpcService.getRequestMetadata_({
+        metadata: {
+          property: 'override',
+          'x-request-id': ['a', 'b'],
+        },
+      });
+
+      assert.deepStrictEqual(metadata.get('property'), ['override']);
+      assert.deepStrictEqual(metadata.get('x-request-id'), ['a', 'b']);
+      assert.deepStrictEqual(metadata.get('x-goog-api-client'), [
+        EXPECTED_API_CLIENT_HEADER,
+      ]);
+      assert.deepStrictEqual(grpcService.grpcMetadata.getMap(), serviceMap);
+    });
+
+    it('should merge a Metadata object onto a copy', () => {
+      const serviceMap = grpcService.grpcMetadata.getMap();
+      const overrides = new grpc.Metadata();
+      overrides.add('property', 'a');
+      overrides.add('property', 'b');
+
+      const metadata = grpcService.getRequestMetadata_({metadata: overrides});
+
+      assert.deepStrictEqual(metadata.get('property'), ['a', 'b']);
+      assert.deepStrictEqual(grpcService.grpcMetadata.getMap(), serviceMap);
+    });
+
+    it('should ask a copy to wait for the channel to be ready', () => {
+      const metadata = grpcService.getRequestMetadata_({waitForReady: true});
+
+      assert.strictEqual(metadata.getOptions().waitForReady, true);
+      assert.deepStrictEqual(metadata.get('x-goog-api-client'), [
+        EXPECTED_API_CLIENT_HEADER,
+      ]);
+      assert.strictEqual(
+        grpcService.grpcMetadata.getOptions().waitForReady,
+        undefined
+      );
+    });
+  });
+
   describe('getGrpcCredentials_', () => {
     it('should get credentials from the auth client', done => {
       grpcService.authClient = {
@@ -1895,6 +5765,168 @@ describe('GrpcService', () => {
       const service = grpcService.getService_({service: 'Service'});
       assert.strictEqual(service, fakeService);
     });
+
+    it('should merge the channel options over the defaults', () => {
+      let channelOptions;
+
+      grpcService.protos = {
+        Service: {
+          Service: class Service {
+            constructor(baseUrl, grpcCredentials, options) {
+              channelOptions = options;
+            }
+          },
+        },
+      };
+      grpcService.channelOptions = {
+        'grpc.max_receive_message_length': 1024,
+        'grpc.keepalive_time_ms': 1000,
+      };
+      grpcService.protoChannelOptions.Service = {
+        'grpc.keepalive_time_ms': 2000,
+      };
+
+      grpcService.getService_({service: 'Service'});
+
+      assert.deepStrictEqual(
+        channelOptions,
+        Object.assign(
+          {'grpc.primary_user_agent': grpcService.userAgent},
+          GrpcService.GRPC_SERVICE_OPTIONS,
+          {
+            'grpc.max_receive_message_length': 1024,
+            'grpc.keepalive_time_ms': 2000,
+          }
+        )
+      );
+    });
+
+    it('should create a client of the health checking service', () => {
+      grpcService.protos = {};
+      grpcService.baseUrl = 'localhost:8080';
+      grpcService.grpcCredentials = grpc.credentials.createInsecure();
+
+      const service = grpcService.getService_({
+        service: 'grpc.health.v1.Health',
+      });
+
+      assert(service instanceof getHealthClient());
+      service.close();
+    });
+
+    describe('channel pool', () => {
+      let channelOptions: Array<{}>;
+
+      beforeEach(() => {
+        channelOptions = [];
+        grpcService.protos = {
+          Service: {
+            Service: class Service {
+              options: {};
+              constructor(baseUrl, grpcCredentials, options) {
+                channelOptions.push(options);
+                this.options = options;
+              }
+            },
+          },
+        };
+      });
+
+      it('should pick the service from a pool', () => {
+        grpcService.channelPool = {size: 2};
+
+        const first = grpcService.getService_({service: 'Service'});
+        const second = grpcService.getService_({service: 'Service'});
+
+        assert.notStrictEqual(first, second);
+        assert.strictEqual(
+          grpcService.getService_({service: 'Service'}),
+          first
+        );
+        assert.strictEqual(channelOptions.length, 2);
+        assert.strictEqual(grpcService.activeServiceMap_.size, 0);
+      });
+
+      it('should give every client its own connection', () => {
+        grpcService.channelPool = {size: 2};
+        grpcService.getService_({service: 'Service'});
+        grpcService.getService_({service: 'Service'});
+
+        assert.deepStrictEqual(
+          channelOptions[0],
+          Object.assign(
+            {'grpc.primary_user_agent': grpcService.userAgent},
+            GrpcService.GRPC_SERVICE_OPTIONS,
+            {'common_grpc.channel_pool_index': 0}
+          )
+        );
+        assert.strictEqual(
+          channelOptions[1]['common_grpc.channel_pool_index'],
+          1
+        );
+      });
+
+      it('should use the pool of the proto service', () => {
+        grpcService.channelPool = {size: 4};
+        grpcService.protoChannelPools.Service = {size: 3};
+
+        grpcService.getService_({service: 'Service'});
+        assert.strictEqual(grpcService.channelPools_.get('Service').size, 3);
+      });
+
+      it('should pass the channel affinity key', () => {
+        grpcService.channelPool = {size: 2};
+        const protoOpts = {service: 'Service', channelAffinityKey: 'key'};
+
+        const service = grpcService.getService_(protoOpts);
+        grpcService.getService_({service: 'Service'});
+        assert.strictEqual(grpcService.getService_(protoOpts), service);
+      });
+
+      it('should not use a pool of one client', () => {
+        grpcService.channelPool = {size: 1};
+
+        const service = grpcService.getService_({service: 'Service'});
+        assert.strictEqual(
+          grpcService.activeServiceMap_.get('Service'),
+          service
+        );
+        assert.strictEqual(grpcService.channelPools_.size, 0);
+      });
+
+      it('should connect and close the clients of a pool', done => {
+        const server = new grpc.Server();
+
+        server.addService(getHealthClient().service, {
+          check(call, callback) {
+            callback(null, {status: 'SERVING'});
+          },
+        });
+
+        server.bindAsync(
+          'localhost:0',
+          grpc.ServerCredentials.createInsecure(),
+          async (err, port) => {
+            server.start();
+            grpcService.baseUrl = `localhost:${port}`;
+            grpcService.grpcCredentials = grpc.credentials.createInsecure();
+            grpcService.channelPool = {size: 2};
+
+            try {
+              assert.ifError(err);
+              await grpcService.checkHealth('');
+              await grpcService.checkHealth('');
+              await grpcService.close();
+              done();
+            } catch (e) {
+              done(e);
+            } finally {
+              server.forceShutdown();
+            }
+          }
+        );
+      });
+    });
   });
 
   describe('ObjectToStructConverter', () => {